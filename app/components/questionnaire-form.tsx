@@ -1,16 +1,102 @@
 import { useState, useEffect } from "react";
 import { QuestionNode } from "~/utils/questions/types";
-import { Answer } from "~/utils/matching/types.server";
+import { Answer, DimensionName } from "~/utils/matching/types.server";
+import type { SupersededFile } from "~/utils/dsn-parser/reconcile.server";
+import type { FileValidationReport } from "~/utils/dsn-parser/conformity.server";
+import ValidationReport from "~/components/validation-report";
 
 // Simplified docx imports
-import { Document, Paragraph, TextRun, HeadingLevel, Packer } from 'docx';
+import { Document, Paragraph, TextRun, HeadingLevel, Packer, Table, TableRow, TableCell, WidthType } from 'docx';
 
 // But keep the file-saver fix
 import FileSaver from 'file-saver';
 const { saveAs } = FileSaver;
 
+// Row labels of table dimensions (see DIMENSIONS in matching/registry.server.ts)
+const DIMENSION_LABELS: Record<DimensionName, string> = {
+  country: "Country",
+  region: "Region",
+  gender: "Gender",
+  contractType: "Contract",
+  workingTime: "Working time",
+  pcsEse: "Category",
+  ageGroup: "Age group",
+  departureReason: "Reason",
+  idcc: "IDCC",
+};
+
+const TOTAL = "total"; // TOTAL_DIMENSION_VALUE of matching/types.server.ts
+
+interface PivotGrid {
+  caption: string | null; // Child question of a cross table (null: one column per child question)
+  headers: string[];      // Row dimension labels, then column labels
+  rows: {
+    labels: string[];
+    answerKeys: (string | null)[]; // One per column, null for an empty cell
+    total: boolean;
+  }[];
+}
+
+/**
+ * Lays the answers of a table question out as 2-D grids, totals last:
+ * - one dimension: a single grid, one row per value and one column per child question
+ * - several dimensions: one grid per child question, the last dimension giving
+ *   the columns and the other ones the rows
+ */
+function buildPivotGrids(tableNode: QuestionNode, answers: Record<string, Answer>): PivotGrid[] {
+  const childIds = new Set(tableNode.children.map(child => child.id));
+  const cells = Object.entries(answers)
+    .filter(([, answer]) => childIds.has(answer.questionId) && Object.keys(answer.dimensions).length > 0);
+  if (cells.length === 0) return [];
+
+  const names = Object.keys(cells[0][1].dimensions) as DimensionName[];
+  const cellValues = (answer: Answer) => names.map(name => answer.dimensions[name] ?? TOTAL);
+  const keysByCell = new Map(cells.map(([key, answer]) => [[answer.questionId, ...cellValues(answer)].join("|"), key]));
+  const findKey = (questionId: string, values: string[]) => keysByCell.get([questionId, ...values].join("|")) ?? null;
+
+  const label = (value: string) => value === TOTAL ? "Total" : value;
+  const distinct = (valueLists: string[][]) => {
+    const unique = new Map(valueLists.map(values => [values.join("|"), values]));
+    return Array.from(unique.values()).sort((a, b) =>
+      Number(a.every(value => value === TOTAL)) - Number(b.every(value => value === TOTAL))
+    );
+  };
+
+  if (names.length === 1) {
+    return [{
+      caption: null,
+      headers: [DIMENSION_LABELS[names[0]], ...tableNode.children.map(child => `${child.id} - ${child.labelEn}`)],
+      rows: distinct(cells.map(([, answer]) => cellValues(answer))).map(values => ({
+        labels: values.map(label),
+        answerKeys: tableNode.children.map(child => findKey(child.id, values)),
+        total: values[0] === TOTAL,
+      })),
+    }];
+  }
+
+  const rowValues = distinct(cells.map(([, answer]) => cellValues(answer).slice(0, -1)));
+  const columnValues = distinct(cells.map(([, answer]) => cellValues(answer).slice(-1))).map(([value]) => value);
+  const dimensionLabels = names.map(name => DIMENSION_LABELS[name]);
+
+  return tableNode.children
+    .filter(child => cells.some(([, answer]) => answer.questionId === child.id))
+    .map(child => ({
+      caption: `${child.id} - ${child.labelEn} (${dimensionLabels.join(" × ")})`,
+      headers: [...dimensionLabels.slice(0, -1), ...columnValues.map(label)],
+      rows: rowValues.map(values => ({
+        labels: values.map(label),
+        answerKeys: columnValues.map(column => findKey(child.id, [...values, column])),
+        total: values.every(value => value === TOTAL),
+      })),
+    }));
+}
+
 export interface QuestionnaireFormData {
   declarationDate: string;
+  missingMonths: string[]; // Months of the fiscal year without an uploaded DSN (e.g. "Dec 2025")
+  supersededFiles: SupersededFile[]; // Uploads replaced or cancelled by another declaration
+  reconciliationWarnings: string[];  // e.g. missing fractions
+  validationReports: FileValidationReport[]; // Warnings of the accepted files
   questionTree: QuestionNode[];
   answers: Record<string, Answer>;
 }
@@ -19,7 +105,15 @@ export interface QuestionnaireFormData {
  * Renders the complete CSRD compliance questionnaire with computed answers.
  */
 export default function QuestionnaireForm({ data }: {  QuestionnaireFormData }) {
-  const { declarationDate, questionTree, answers: initialAnswers } = data; // ✅ Rename to initialAnswers
+  const {
+    declarationDate,
+    missingMonths,
+    supersededFiles,
+    reconciliationWarnings,
+    validationReports,
+    questionTree,
+    answers: initialAnswers, // ✅ Rename to initialAnswers
+  } = data;
 
   // ✅ Declare all required state
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({});
@@ -45,7 +139,7 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
   // Get current answer value (prioritize user changes over initial answers)
   const getCurrentAnswer = (questionId: string): Answer => {
     const initialAnswer = initialAnswers[questionId];
-    if (!initialAnswer) return { value: null, source: "manual", explanation: "" };
+    if (!initialAnswer) return { questionId, dimensions: {}, value: null, source: "manual", explanation: "" };
     
     if (initialAnswer.source === "computed") {
       return initialAnswer;
@@ -54,6 +148,7 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
     const userChange = manualAnswerChanges[questionId];
     if (userChange) {
       return {
+        ...initialAnswer,
         value: userChange.value || null,
         explanation: userChange.explanation,
         source: "manual"
@@ -91,55 +186,18 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
         text: `Declaration Date: ${declarationDate}`,
         heading: HeadingLevel.HEADING_2,
       }));
-      
-      // Helper function to extract dynamic table data
-      const extractDynamicTableData = (tableNode: QuestionNode, answers: Record<string, Answer>) => {
-        const tableAnswerKeys = Object.keys(answers).filter(key => {
-          return tableNode.children.some(child => key.startsWith(child.id + '_'));
-        });
-
-        if (tableAnswerKeys.length === 0) {
-          return null;
-        }
-
-        if (tableNode.id === "S1-6_07") {
-          const dimensions = new Set<string>();
-          const groupedAnswers: Record<string, Record<string, Answer>> = {};
-
-          tableAnswerKeys.forEach(key => {
-            const parts = key.split('_');
-            if (parts.length >= 4) {
-              const dimension = `${parts[2]}_${parts[3]}`;
-              dimensions.add(dimension);
-              if (!groupedAnswers[dimension]) {
-                groupedAnswers[dimension] = {};
-              }
-              groupedAnswers[dimension][`${parts[0]}_${parts[1]}`] = answers[key];
-            }
-          });
-
-          return { dimensions: Array.from(dimensions), groupedAnswers, type: 'contract_gender' };
-        }
 
-        const dimensions = new Set<string>();
-        const groupedAnswers: Record<string, Record<string, Answer>> = {};
-
-        tableAnswerKeys.forEach(key => {
-          const parts = key.split('_');
-          const baseId = parts.slice(0, -1).join('_');
-          const dimension = parts[parts.length - 1];
-          dimensions.add(dimension);
-          if (!groupedAnswers[dimension]) {
-            groupedAnswers[dimension] = {};
-          }
-          groupedAnswers[dimension][baseId] = answers[key];
-        });
-
-        return { dimensions: Array.from(dimensions), groupedAnswers, type: 'standard' };
-      };
-
-      const buildDocumentStructure = (nodes: QuestionNode[], depth: number = 0): Paragraph[] => {
-        let content: Paragraph[] = [];
+      if (missingMonths.length > 0) {
+        paragraphs.push(new Paragraph({
+          children: [new TextRun({
+            text: `Incomplete year, no DSN for: ${missingMonths.join(", ")}`,
+            italics: true,
+          })],
+        }));
+      }
+      
+      const buildDocumentStructure = (nodes: QuestionNode[], depth: number = 0): (Paragraph | Table)[] => {
+        let content: (Paragraph | Table)[] = [];
         
         nodes.forEach(node => {
           if (node.content === "") {
@@ -159,9 +217,8 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
             }));
             
             const hasStaticAnswers = node.children.some(child => initialAnswers[child.id] !== undefined);
-            const hasDynamicAnswers = Object.keys(initialAnswers).some(key => 
-              node.children.some(child => key.startsWith(child.id + '_'))
-            );
+            const grids = buildPivotGrids(node, initialAnswers);
+            const hasDynamicAnswers = grids.length > 0;
             
             if (hasStaticAnswers && !hasDynamicAnswers) {
               node.children.forEach(child => {
@@ -189,46 +246,41 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
               });
             }
             else if (hasDynamicAnswers) {
-              const tableData = extractDynamicTableData(node, initialAnswers);
-              if (tableData) {
-                tableData.dimensions.forEach(dimension => {
-                  const dimensionLabel = 
-                    node.id === "S1-6_04" ? `Country: ${dimension}` :
-                    node.id === "S1-6_08" ? `Region: ${dimension}` :
-                    node.id === "S1-6_18" ? `Category: ${dimension}` :
-                    `Contract Gender: ${dimension}`;
-                  
+              grids.forEach(grid => {
+                if (grid.caption) {
                   content.push(new Paragraph({
-                    text: dimensionLabel,
-                    bold: true,
+                    children: [new TextRun({ text: grid.caption, bold: true })],
+                  }));
+                }
+
+                const textCell = (text: string, bold = false) => new TableCell({
+                  children: [new Paragraph({ children: [new TextRun({ text, bold })] })],
+                });
+                const rowAnswers = grid.rows.map(row =>
+                  row.answerKeys.map(answerKey => answerKey ? getCurrentAnswer(answerKey) : null)
+                );
+
+                content.push(new Table({
+                  width: { size: 100, type: WidthType.PERCENTAGE },
+                  rows: [
+                    new TableRow({ children: grid.headers.map(header => textCell(header, true)) }),
+                    ...grid.rows.map((row, rowIndex) => new TableRow({
+                      children: [
+                        ...row.labels.map(label => textCell(label, true)),
+                        ...rowAnswers[rowIndex].map(answer => textCell(String(answer?.value ?? "–"), row.total)),
+                      ],
+                    })),
+                  ],
+                }));
+
+                // Audit trail of every cell
+                rowAnswers.flat().forEach(answer => {
+                  if (!answer?.explanation) return;
+                  content.push(new Paragraph({
+                    children: [new TextRun({ text: answer.explanation, italics: true })],
                   }));
-                  
-                  node.children.forEach(child => {
-                    const answerKey = `${child.id}_${dimension}`;
-                    const answer = getCurrentAnswer(answerKey); // ✅ Use getCurrentAnswer
-                    if (!answer) return;
-                    
-                    content.push(new Paragraph({
-                      text: `${child.id} - ${child.labelEn}`,
-                      heading: HeadingLevel.HEADING_4,
-                    }));
-                    
-                    content.push(new Paragraph({
-                      children: [new TextRun({
-                        text: `Value: ${answer.value ?? 'Not provided'}`,
-                        bold: true,
-                      })],
-                    }));
-                    
-                    if (answer.explanation) {
-                      content.push(new Paragraph({
-                        text: `Explanation: ${answer.explanation}`,
-                        italics: true,
-                      }));
-                    }
-                  });
                 });
-              }
+              });
             }
           }
           else {
@@ -287,6 +339,34 @@ export default function QuestionnaireForm({ data }: {  QuestionnaireFormData })
         <span className="period-badge">Declaration Date: {declarationDate}</span>
       </div>
 
+      {missingMonths.length > 0 && (
+        <div className="alert alert-warning">
+          ⚠️ Incomplete year: no DSN uploaded for {missingMonths.join(", ")}.
+          Annual figures only reflect the months provided.
+        </div>
+      )}
+
+      {reconciliationWarnings.map((warning: string) => (
+        <div key={warning} className="alert alert-warning">⚠️ {warning}</div>
+      ))}
+
+      {supersededFiles.length > 0 && (
+        <div className="alert alert-info">
+          Superseded files, not used in the figures below:
+          <ul className="superseded-files">
+            {supersededFiles.map((file: SupersededFile) => (
+              <li key={file.fileName}>
+                <strong>{file.fileName}</strong>: {file.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {validationReports.map(({ fileName, report }: FileValidationReport) => (
+        <ValidationReport key={fileName} report={report} fileName={fileName} />
+      ))}
+
       <div className="questions-list">
         <QuestionTree 
           nodes={questionTree} 
@@ -418,9 +498,7 @@ function QuestionNodeRenderer({
 
   if (node.content === "Table") {
     const hasStaticAnswers = node.children.some(child => answers[child.id] !== undefined);
-    const hasDynamicAnswers = Object.keys(answers).some(key => 
-      node.children.some(child => key.startsWith(child.id + '_'))
-    );
+    const hasDynamicAnswers = buildPivotGrids(node, answers).length > 0;
 
     const isCollapsed = isSectionCollapsed(node.id);
 
@@ -467,11 +545,10 @@ function QuestionNodeRenderer({
           </div>
           
           {!isCollapsed && (
-            <DynamicTableRows 
+            <PivotTableGrids 
               tableNode={node} 
               answers={answers}
               getCurrentAnswer={getCurrentAnswer}
-              onManualAnswerChange={onManualAnswerChange}
               depth={depth + 1}
             />
           )}
@@ -512,122 +589,52 @@ function QuestionNodeRenderer({
 }
 
 /**
- * Dynamically renders table rows based on actual answer keys.
+ * Renders the answers of a table question as 2-D grids with totals; each cell
+ * shows its explanation on hover.
  */
-function DynamicTableRows({
+function PivotTableGrids({
   tableNode,
   answers,
   getCurrentAnswer,
-  onManualAnswerChange,
   depth
 }: {
   tableNode: QuestionNode;
   answers: Record<string, Answer>;
   getCurrentAnswer: (id: string) => Answer;
-  onManualAnswerChange: (questionId: string, field: 'value' | 'explanation', value: string) => void;
   depth: number;
 }) {
-  const tableAnswerKeys = Object.keys(answers).filter(key => {
-    return tableNode.children.some(child => key.startsWith(child.id + '_'));
-  });
+  const grids = buildPivotGrids(tableNode, answers);
 
-  if (tableAnswerKeys.length === 0) {
+  if (grids.length === 0) {
     return <p className="no-data">No data available</p>;
   }
 
-  if (tableNode.id === "S1-6_07") {
-    const dimensions = new Set<string>();
-    const groupedAnswers: Record<string, Record<string, Answer>> = {};
-
-    tableAnswerKeys.forEach(key => {
-      const parts = key.split('_');
-      if (parts.length >= 4) {
-        const dimension = `${parts[2]}_${parts[3]}`;
-        dimensions.add(dimension);
-        if (!groupedAnswers[dimension]) {
-          groupedAnswers[dimension] = {};
-        }
-        groupedAnswers[dimension][`${parts[0]}_${parts[1]}`] = answers[key];
-      }
-    });
-
-    return (
-      <div className="dynamic-table">
-        {Array.from(dimensions).map(dimension => (
-          <div key={dimension} className="table-row" style={{ marginLeft: `${depth * 20}px` }}>
-            <div className="dimension-header">
-              <strong>Contract Gender: {dimension}</strong>
-            </div>
-            {tableNode.children.map(child => {
-              const answerKey = `${child.id}_${dimension}`;
-              const answer = getCurrentAnswer(answerKey);
-              
-              if (!answer) return null;
-              
-              return (
-                <div key={answerKey} className="table-cell" style={{ marginLeft: `${(depth + 1) * 20}px` }}>
-                  <QuestionField 
-                    question={child} 
-                    answer={answer}
-                    onManualChange={answer.source === "manual" ? (field, value) => 
-                      onManualAnswerChange(answerKey, field, value) 
-                    : undefined}
-                  />
-                </div>
-              );
-            })}
-          </div>
-        ))}
-      </div>
-    );
-  }
-
-  const dimensions = new Set<string>();
-  const groupedAnswers: Record<string, Record<string, Answer>> = {};
-
-  tableAnswerKeys.forEach(key => {
-    const parts = key.split('_');
-    const baseId = parts.slice(0, -1).join('_');
-    const dimension = parts[parts.length - 1];
-    dimensions.add(dimension);
-    if (!groupedAnswers[dimension]) {
-      groupedAnswers[dimension] = {};
-    }
-    groupedAnswers[dimension][baseId] = answers[key];
-  });
-
   return (
-    <div className="dynamic-table">
-      {Array.from(dimensions).map(dimension => (
-        <div key={dimension} className="table-row" style={{ marginLeft: `${depth * 20}px` }}>
-          <div className="dimension-header">
-            <strong>
-              {tableNode.id === "S1-6_04" ? "Country: " : 
-               tableNode.id === "S1-6_08" ? "Region: " :
-               tableNode.id === "S1-6_18" ? "Category: " :
-               "Contract Gender: "}{dimension}
-            </strong>
-          </div>
-
-          {tableNode.children.map(child => {
-            const answerKey = `${child.id}_${dimension}`;
-            const answer = getCurrentAnswer(answerKey);
-            
-            if (!answer) return null;
-            
-            return (
-              <div key={answerKey} className="table-cell" style={{ marginLeft: `${(depth + 1) * 20}px` }}>
-                <QuestionField 
-                  question={child} 
-                  answer={answer}
-                  onManualChange={answer.source === "manual" ? (field, value) => 
-                    onManualAnswerChange(answerKey, field, value) 
-                  : undefined}
-                />
-              </div>
-            );
-          })}
-        </div>
+    <div className="dynamic-table" style={{ marginLeft: `${depth * 20}px` }}>
+      {grids.map(grid => (
+        <table key={grid.caption ?? tableNode.id} className="pivot-table">
+          {grid.caption && <caption>{grid.caption}</caption>}
+          <thead>
+            <tr>
+              {grid.headers.map(header => <th key={header} scope="col">{header}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rows.map(row => (
+              <tr key={row.labels.join("|")} className={row.total ? "total-row" : undefined}>
+                {row.labels.map((label, index) => <th key={index} scope="row">{label}</th>)}
+                {row.answerKeys.map((answerKey, index) => {
+                  const answer = answerKey ? getCurrentAnswer(answerKey) : null;
+                  return (
+                    <td key={index} title={answer?.explanation}>
+                      {answer?.value ?? "–"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
       ))}
     </div>
   );
@@ -0,0 +1,38 @@
+import type { DsnValidationReport } from "~/utils/dsn-parser/conformity.server";
+
+/**
+ * Lists DSN validation issues with their location in the uploaded file.
+ * `fileName` names the file in the title when several files were uploaded.
+ */
+export default function ValidationReport({ report, fileName }: { report: DsnValidationReport; fileName?: string }) {
+  return (
+    <div className="validation-report">
+      <h2 className="validation-report-title">
+        Validation report{fileName ? ` (${fileName})` : ""}: {report.errorCount} error{report.errorCount !== 1 ? "s" : ""},{" "}
+        {report.warningCount} warning{report.warningCount !== 1 ? "s" : ""}
+      </h2>
+      <table className="validation-table">
+        <thead>
+          <tr>
+            <th>Line</th>
+            <th>Rubrique</th>
+            <th>Severity</th>
+            <th>Code</th>
+            <th>Message</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.issues.map((issue, index) => (
+            <tr key={`${issue.line}-${issue.code}-${index}`} className={`severity-${issue.severity}`}>
+              <td>{issue.line ?? "—"}</td>
+              <td>{issue.rubriqueCode ?? "—"}</td>
+              <td>{issue.severity}</td>
+              <td><code>{issue.code}</code></td>
+              <td>{issue.message}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
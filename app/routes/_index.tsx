@@ -1,10 +1,24 @@
-import type { ActionFunctionArgs, MetaFunction } from "@remix-run/node";
-import { json, redirect } from "@remix-run/node";
+import type { ActionFunctionArgs, MetaFunction, UploadHandler } from "@remix-run/node";
+import {
+  json,
+  redirect,
+  unstable_composeUploadHandlers,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+} from "@remix-run/node";
 import { Form, useActionData, useNavigation } from "@remix-run/react";
-import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { parseDsnStream } from "~/utils/dsn-parser/parser.server";
+import { readDsnArchive } from "~/utils/dsn-parser/archive.server";
+import { reconcileDeclarations } from "~/utils/dsn-parser/reconcile.server";
+import type { UploadedDeclaration } from "~/utils/dsn-parser/reconcile.server";
+import { DsnValidationError } from "~/utils/dsn-parser/conformity.server";
+import type { DsnValidationReport, FileValidationReport } from "~/utils/dsn-parser/conformity.server";
 import { loadQuestionsFromCsv } from "~/utils/questions/loader.server";
 //import QuestionnaireForm from "~/components/questionnaire-form";
 import { computeAnswers } from "~/utils/matching/index.server";
+import type { AveragingMethod, HeadcountMeasure, TurnoverOptions } from "~/utils/matching/types.server";
+import { extractReportingPeriodFromSet, formatPeriodLabel } from "~/utils/matching/extract-period.server";
+import ValidationReport from "~/components/validation-report";
 import indexStyles from "~/styles/index.css";
 import { commitSession, getSession } from "../utils/sessions/sessions.server";
 
@@ -12,10 +26,11 @@ import { commitSession, getSession } from "../utils/sessions/sessions.server";
  * ActionData represents all possible JSON responses returned by the action().
  * 
  * - Error case: returned when validation or parsing fails
+ *   (with the validation report when the DSN content itself is invalid)
  * - Success case: returned when DSN is successfully processed with full questionnaire data
  */
 type ActionData =
-  | { error: string }
+  | { error: string; report?: DsnValidationReport }
   | { 
       success: true; 
       dsnPeriod: string;
@@ -35,36 +50,142 @@ export const meta: MetaFunction = () => {
 };
 
 
-export async function action({ request }: ActionFunctionArgs) {
-  const formData = await request.formData();
-  const dsnFile = formData.get("dsn") as File | null;
+// The DSN is parsed while it is uploaded, so only the resulting declaration
+// is held in memory: group-level files of several hundred MB are accepted.
+const MAX_DSN_SIZE = 1024 * 1024 * 1024; // 1GB limit
 
-  if (!dsnFile || dsnFile.size === 0) {
-    return json({ error: "Please upload a DSN file (.txt)." }, { status: 400 });
-  }
-  if (dsnFile.size > 10000000) { // 10MB limit
-    return json({ error: "File too large (Maximum size 10MB) " }, { status: 400 });
+
+/**
+ * Passes chunks through while counting bytes, failing once `maxBytes` is exceeded.
+ */
+async function* limitSize(data: AsyncIterable<Uint8Array>, maxBytes: number): AsyncGenerator<Uint8Array> {
+  let total = 0;
+  for await (const chunk of data) {
+    total += chunk.byteLength;
+    if (total > maxBytes) {
+      throw new Error("File too large (Maximum size 1GB)");
+    }
+    yield chunk;
   }
+}
 
 
-  // Validate file type (basic check)
-  if (!dsnFile.name.endsWith(".txt")) {
-    return json({ error: "Only .txt files are allowed." }, { status: 400 });
+/**
+ * Buffers a (size-limited) upload; zip archives can only be read once complete.
+ */
+async function collectBytes(data: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of data) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+
+/**
+ * Reads the reporting period set on the upload form ("YYYY-MM-DD" date inputs).
+ * Both dates must be given together; none means the period comes from the DSN months.
+ */
+function parseReportingPeriod(
+  startValue: FormDataEntryValue | null,
+  endValue: FormDataEntryValue | null
+): { start: Date; end: Date } | undefined {
+  const startInput = typeof startValue === "string" ? startValue : "";
+  const endInput = typeof endValue === "string" ? endValue : "";
+  if (!startInput && !endInput) return undefined;
+
+  const start = parseDateInput(startInput);
+  const end = parseDateInput(endInput);
+  if (!start || !end) {
+    throw new Error("Please enter both the start and the end of the reporting period.");
   }
 
+  return { start, end };
+}
+
+function parseDateInput(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+
+export async function action({ request }: ActionFunctionArgs) {
+  const uploads: UploadedDeclaration[] = []; // Filled by the upload handler
+
+  // Stream each "dsn" file part straight into the parser; other fields are kept in memory.
+  // Several monthly DSNs (.txt) or a zip archive of them can be uploaded for annual reporting.
+  const dsnUploadHandler: UploadHandler = async ({ name, filename, data }) => {
+    if (name !== "dsn" || !filename) return undefined;
+
+    // Validate file type (basic check)
+    if (filename.endsWith(".zip")) {
+      const archive = await collectBytes(limitSize(data, MAX_DSN_SIZE));
+      for (const file of await readDsnArchive(archive)) {
+        uploads.push({ fileName: file.fileName, declaration: await parseDsnStream(file.stream, file.fileName) });
+      }
+    } else if (filename.endsWith(".txt")) {
+      uploads.push({ fileName: filename, declaration: await parseDsnStream(limitSize(data, MAX_DSN_SIZE), filename) });
+    } else {
+      throw new Error("Only .txt and .zip files are allowed.");
+    }
+
+    return filename;
+  };
+
   try {
-    const content = await dsnFile.text();
-    const declaration = await parseDsnFile(content); 
+    const formData = await unstable_parseMultipartFormData(
+      request,
+      unstable_composeUploadHandlers(dsnUploadHandler, unstable_createMemoryUploadHandler())
+    );
+
+    if (uploads.length === 0) {
+      return json({ error: "Please upload a DSN file (.txt)." }, { status: 400 });
+    }
+
+    // Replacements ("annule et remplace") and fractions → one declaration per month
+    const { declarations, superseded, warnings } = reconcileDeclarations(uploads);
+    if (declarations.length === 0) {
+      return json({ error: "Every uploaded declaration was cancelled (type 04 \"annule\")." }, { status: 400 });
+    }
+
+    // Head-count (default) or full-time equivalents, for the whole questionnaire
+    const measure: HeadcountMeasure = formData.get("measure") === "fte" ? "fte" : "headcount";
+
+    // Averaging method of every average headcount (two-point by default)
+    const averagingInput = formData.get("averaging");
+    const averaging: AveragingMethod =
+      averagingInput === "monthly" || averagingInput === "daily-weighted" ? averagingInput : "two-point";
+
+    // Turnover formula (S1-6_12 / S1-6_26)
+    const denominatorInput = formData.get("turnoverDenominator");
+    const turnover: TurnoverOptions = {
+      denominator: denominatorInput === "average" || denominatorInput === "end" ? denominatorInput : "start",
+      annualize: formData.get("annualizeTurnover") === "on",
+      excludeEndOfContract: formData.get("excludeEndOfContract") === "on",
+    };
+
+    // Optional reporting period (e.g. a fiscal year not matching the calendar year)
+    const period = parseReportingPeriod(formData.get("periodStart"), formData.get("periodEnd"));
+
     const questions = loadQuestionsFromCsv();
-    const answers = computeAnswers(declaration, questions);
+    const answers = computeAnswers(declarations, questions, { measure, averaging, turnover, period });
+    const coverage = extractReportingPeriodFromSet(declarations, period);
+    const missingMonths = coverage.missingMonths.map(({ year, month }) =>
+      new Date(year, month, 1).toLocaleString("en-US", { month: "short", year: "numeric" })
+    );
 
 
 
     //Format declaration date for UI
-    const rawPeriod = declaration.mois; // "19460720"
+    const rawPeriod = declarations[0].mois; // "19460720"
     let formattedDate = "Unknown";
 
-    if (rawPeriod && /^\d{6,8}$/.test(rawPeriod)) {
+    if (period || declarations.length > 1) {
+      formattedDate = formatPeriodLabel(coverage); // i.e : Jan 2025 - Dec 2025
+    }
+    else if (rawPeriod && /^\d{6,8}$/.test(rawPeriod)) {
       const yyyymm = rawPeriod.length === 8 ? rawPeriod.substring(0, 6) : rawPeriod;
       const year = yyyymm.substring(0, 4);
       const month = parseInt(yyyymm.substring(4, 6), 10) - 1; // JS months are 0-indexed
@@ -82,11 +203,20 @@ export async function action({ request }: ActionFunctionArgs) {
     }
 
     
+    // Warnings of accepted files (ignored lines or blocks), shown with the answers
+    const validationReports: FileValidationReport[] = uploads.flatMap(({ fileName, declaration }) =>
+      declaration.validation?.issues.length ? [{ fileName, report: declaration.validation }] : []
+    );
+
     //Session management
     // Store in memory session (not cookie)
     const session = await getSession(request.headers.get("Cookie"));
     session.set("questionnaireData", { 
       declarationDate: formattedDate,
+      missingMonths,
+      supersededFiles: superseded,
+      reconciliationWarnings: warnings,
+      validationReports,
       questionTree: questions,
       answers 
     });
@@ -97,6 +227,11 @@ export async function action({ request }: ActionFunctionArgs) {
      
 
   } catch (err) {
+    if (err instanceof DsnValidationError) {
+      // Invalid DSN content: return every issue so payroll can fix the file
+      return json({ error: err.message, report: err.report }, { status: 400 });
+    }
+
     if (err instanceof Error) {
       // Known, user-facing error
       return json({ error: err.message }, { status: 400 });
@@ -122,6 +257,10 @@ export default function Index() {
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
+  const validationReport =
+    actionData && "report" in actionData
+      ? (actionData.report as DsnValidationReport | undefined)
+      : undefined;
 
 
 
@@ -129,22 +268,89 @@ export default function Index() {
     <div className="page">
       <h1>Kiosk ESG/CSRD Assistant</h1>
       <p>Upload your DSN declaration to auto-fill ESG reporting answers.</p>
+      <p>For annual reporting, select the twelve monthly DSNs of the fiscal year or a zip archive containing them.</p>
 
 
 
       <Form method="post" encType="multipart/form-data" className="form">
         <label htmlFor="dsn-upload">
-          DSN File (.txt):
+          DSN File(s) (.txt or .zip):
         </label>
         <input
           id="dsn-upload"
           type="file"
           name="dsn"
-          accept=".txt,text/plain"
+          accept=".txt,text/plain,.zip,application/zip"
+          multiple
           required
           className="input"
         />
 
+        <fieldset className="reporting-period">
+          <legend>Reporting period (optional):</legend>
+          <label>
+            From
+            <input type="date" name="periodStart" className="input" />
+          </label>
+          <label>
+            To
+            <input type="date" name="periodEnd" className="input" />
+          </label>
+          <p className="explanation">Leave empty to use the month of the DSN, or the calendar year for several DSNs.</p>
+        </fieldset>
+
+        <fieldset className="measure-toggle">
+          <legend>Count employees as:</legend>
+          <label>
+            <input type="radio" name="measure" value="headcount" defaultChecked />
+            Head-count
+          </label>
+          <label>
+            <input type="radio" name="measure" value="fte" />
+            Full-time equivalent
+          </label>
+        </fieldset>
+
+        <fieldset className="measure-toggle">
+          <legend>Average headcount over the period:</legend>
+          <label>
+            <input type="radio" name="averaging" value="two-point" defaultChecked />
+            (Start + end) / 2
+          </label>
+          <label>
+            <input type="radio" name="averaging" value="monthly" />
+            Mean of month-end headcounts
+          </label>
+          <label>
+            <input type="radio" name="averaging" value="daily-weighted" />
+            Daily-weighted
+          </label>
+        </fieldset>
+
+        <fieldset className="measure-toggle">
+          <legend>Turnover rate: leavers divided by</legend>
+          <label>
+            <input type="radio" name="turnoverDenominator" value="start" defaultChecked />
+            Headcount at period start
+          </label>
+          <label>
+            <input type="radio" name="turnoverDenominator" value="average" />
+            Average headcount
+          </label>
+          <label>
+            <input type="radio" name="turnoverDenominator" value="end" />
+            Headcount at period end
+          </label>
+          <label>
+            <input type="checkbox" name="annualizeTurnover" />
+            Annualize rates of periods shorter than a year
+          </label>
+          <label>
+            <input type="checkbox" name="excludeEndOfContract" />
+            Exclude fixed-term contracts that reached their term
+          </label>
+        </fieldset>
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -163,7 +369,9 @@ export default function Index() {
         </div>
       )}
 
+      {validationReport && <ValidationReport report={validationReport} />}
+
       
     </div>
   );
-}
\ No newline at end of file
+}
@@ -61,6 +61,10 @@ export default function QuestionnairePage() {
   // ✅ Pass questionTree instead of flat questions
   const formData: QuestionnaireFormData = {
     declarationDate: data.declarationDate,
+    missingMonths: data.missingMonths ?? [],
+    supersededFiles: data.supersededFiles ?? [],
+    reconciliationWarnings: data.reconciliationWarnings ?? [],
+    validationReports: data.validationReports ?? [],
     questionTree: data.questionTree, // ← Updated property name
     answers: data.answers
   };
@@ -0,0 +1,46 @@
+import { Readable } from "stream";
+import JSZip from "jszip";
+
+/**
+ * A DSN text file found in an uploaded zip archive.
+ */
+export interface ArchivedDsnFile {
+  fileName: string;
+  stream: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Lists the DSN files (.txt) contained in a zip archive, typically the twelve
+ * monthly DSNs of a fiscal year. Each file is exposed as a stream so it can be
+ * fed to parseDsnStream without inflating every file in memory at once.
+ *
+ * Directories, non-.txt entries and macOS metadata (__MACOSX/) are skipped.
+ *
+ * @param content - Raw bytes of the .zip upload
+ * @throws Error if the archive cannot be read or contains no DSN file
+ */
+export async function readDsnArchive(content: Uint8Array): Promise<ArchivedDsnFile[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(content);
+  } catch {
+    throw new Error("Invalid zip archive: unable to read its content.");
+  }
+
+  const files = Object.values(zip.files)
+    .filter(entry => !entry.dir)
+    .filter(entry => !entry.name.startsWith("__MACOSX/"))
+    .filter(entry => entry.name.toLowerCase().endsWith(".txt"))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(entry => ({
+      fileName: entry.name.split("/").pop() || entry.name,
+      // JSZip emits legacy streams: wrap them to get an async-iterable Readable
+      stream: new Readable().wrap(entry.nodeStream("nodebuffer")),
+    }));
+
+  if (files.length === 0) {
+    throw new Error("The zip archive does not contain any DSN file (.txt).");
+  }
+
+  return files;
+}
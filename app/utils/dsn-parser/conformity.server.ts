@@ -1,17 +1,102 @@
 /**
- * Performs a lightweight pre-validation of a DSN file.
+ * Structured validation of a DSN file.
  *
- * Checks for the presence of mandatory DSN blocks (S10, S20, S21)
- * before running the full parsing logic.
+ * Each problem found while reading the file is recorded as a
+ * `DsnValidationIssue` with the line it was found on, the rubrique involved,
+ * a severity and a stable error code, so that payroll can locate and fix it
+ * in the source file.
+ *
+ * - **error**: the declaration cannot be used to compute answers
+ * - **warning**: the line or block was ignored, figures may be incomplete
+ */
+
+export type DsnIssueSeverity = "error" | "warning";
+
+export type DsnIssueCode =
+  | "UNRECOGNIZED_LINE"              // Line does not match S..G..,'value'
+  | "MISSING_BLOCK"                  // No S10, S20 or S21 rubrique in the file
+  | "MISSING_REPORTING_MONTH"        // S20.G00.05.005 absent
+  | "INDIVIDU_WITHOUT_ETABLISSEMENT" // S21.G00.30 before any S21.G00.11
+  | "CONTRAT_WITHOUT_INDIVIDU"       // S21.G00.40 before any S21.G00.30
+  | "BLOC_WITHOUT_INDIVIDU"          // S21.G00.5x / S21.G00.6x before any S21.G00.30
+  | "UNKNOWN_CONTRACT_NUMBER"        // S21.G00.51.010 matches no S21.G00.40.009
+  | "ACTIVITE_WITHOUT_REMUNERATION";  // S21.G00.53 before any S21.G00.51 of the individual
+
+export interface DsnValidationIssue {
+  line: number | null;         // 1-based line in the uploaded file (null = whole file)
+  rubriqueCode: string | null; // e.g. "S21.G00.30.001"
+  severity: DsnIssueSeverity;
+  code: DsnIssueCode;
+  message: string;
+}
+
+export interface DsnValidationReport {
+  valid: boolean; // true when no issue has severity "error"
+  errorCount: number;
+  warningCount: number;
+  issues: DsnValidationIssue[];
+}
+
+export interface FileValidationReport {
+  fileName: string;
+  report: DsnValidationReport;
+}
+
+/**
+ * Thrown by `parseDsnFile` when the declaration contains blocking errors.
+ * Carries the full report so the upload page can display every issue.
+ */
+export class DsnValidationError extends Error {
+  report: DsnValidationReport;
+  fileName?: string;
+
+  constructor(report: DsnValidationReport, fileName?: string) {
+    super(
+      `Invalid DSN${fileName ? ` (${fileName})` : ""}: ` +
+      `${report.errorCount} error${report.errorCount !== 1 ? "s" : ""} ` +
+      `and ${report.warningCount} warning${report.warningCount !== 1 ? "s" : ""} found.`
+    );
+    this.name = "DsnValidationError";
+    this.report = report;
+    this.fileName = fileName;
+  }
+}
+
+const REQUIRED_BLOCKS = ["S10", "S20", "S21"];
+
+/**
+ * Checks for the presence of the mandatory DSN blocks (S10, S20, S21)
+ * among the block codes read from the file (ex. "S21.G00.30").
  *
  * Note: This does NOT validate the structure or correctness of the blocks,
  * only their presence.
  */
+export function findMissingBlocks(blocCodes: Iterable<string>): DsnValidationIssue[] {
+  const seen = new Set(Array.from(blocCodes, blocCode => blocCode.substring(0, 3)));
+
+  return REQUIRED_BLOCKS
+    .filter(block => !seen.has(block))
+    .map(block => ({
+      line: null,
+      rubriqueCode: null,
+      severity: "error" as const,
+      code: "MISSING_BLOCK" as const,
+      message: `Missing required ${block} block.`,
+    }));
+}
+
+/**
+ * Aggregates issues into a report, ordered by line number
+ * (file-level issues first).
+ */
+export function buildValidationReport(issues: DsnValidationIssue[]): DsnValidationReport {
+  const sorted = [...issues].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  const errorCount = sorted.filter(issue => issue.severity === "error").length;
 
-export function hasRequiredBlocks(content: string): boolean {
-  const lines = content.split('\n');
-  const hasS10 = lines.some(line => /^S10\./.test(line));
-  const hasS20 = lines.some(line => /^S20\./.test(line));
-  const hasS21 = lines.some(line => /^S21\./.test(line));
-  return hasS10 && hasS20 && hasS21;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: sorted.length - errorCount,
+    issues: sorted,
+  };
 }
@@ -2,29 +2,56 @@
  * Source: Adapted from the LaSocieteNouvelle-METRIZ-WebApp repository
  * File: DSNReader.js
  * Repository: https://github.com/La-Societe-Nouvelle/LaSocieteNouvelle-METRIZ-WebApp
- *  Add management of S21.G00.62 section in order to retrieve contract end date
+ *  Add management of S21.G00.62 section in order to retrieve contract end date and termination reason
  * Modifications:
  * - Converted to TypeScript
+ * - Parse payment blocks S21.G00.50 to S21.G00.54 (remunerations linked to contracts)
+ * - Record structured validation issues (line, rubrique, severity, code)
+ * - Streaming reader (DSNStreamReader) built on async iterators for large files
+ * - Parse work stoppages (S21.G00.60) and other suspensions (S21.G00.65)
  */
 
+import type { DsnValidationIssue, DsnValidationReport } from "./conformity.server";
+import { findMissingBlocks } from "./conformity.server";
+
 
 // ─── Types ───────────────────────────────────────────────
 
-interface DSNRow {
+export interface DSNRow {
+  line: number; // 1-based line in the source file
   blocCode: string;
   rubriqueCode: string;
   valueCode: string;
   value: string;
 }
 
-interface DataDSN {
+/**
+ * Consecutive rows of the same block (ex. all S21.G00.30.xxx of one individual),
+ * keyed by rubrique code.
+ */
+interface DsnBloc {
+  blocCode: string;
+  line: number;         // Line of the first rubrique of the block
+  rubriqueCode: string; // First rubrique of the block
+  values: Record<string, string>;
+}
+
+/**
+ * Any byte or text source a DSN can be streamed from: a Node.js Readable,
+ * a web ReadableStream, or the async iterable given to Remix upload handlers.
+ */
+export type DsnStreamSource =
+  | AsyncIterable<Uint8Array | string>
+  | ReadableStream<Uint8Array>;
+
+export interface DataDSN {
   rows: DSNRow[];
-  errors: unknown[]; // or string[] if you track them
+  errors: DsnValidationIssue[]; // Line-level issues (unrecognized lines)
 }
 
 
 
-interface Declaration {
+export interface Declaration {
   nature?: string;
   type?: string;
   fraction?: string;
@@ -44,31 +71,39 @@ interface Declaration {
       //individus: Individu[];
     //};
   };
-  errors: unknown[];
-  validStatement: boolean;
+  errors: DsnValidationIssue[];
+  validStatement: boolean; // false as soon as one issue has severity "error"
+  validation?: DsnValidationReport; // Set by parseDsnFile / parseDsnStream on accepted declarations (warnings only)
+
 }
 
 
 //Etablissement add 
-interface Etablissement {
+export interface Etablissement {
   nic?: string;
+  adresse?: string;    // S21.G00.11.003 (numéro, extension et nature de la voie)
+  codePostal?: string; // S21.G00.11.004
+  localite?: string;   // S21.G00.11.005
   countryCode?: string;
   individus: Individu[];
 }
 
-interface Individu {
+export interface Individu {
   identifiant?: string;
   nomFamille?: string;
   nomUsage?: string;
   prenoms?: string;
   sexe?: string;
+  dateNaissance?: string; // S21.G00.30.006
   pays?: string; // Country code from S21.G00.30.029
   identifiantTechnique?: string;
   contrats: Contrat[];
   versements: Versement[];
+  arrets: ArretTravail[];
+  suspensions: Suspension[];
 }
 
-interface Contrat {
+export interface Contrat {
   dateDebut?: string;
   dateFin?: string;
   statutConventionnel?: string;
@@ -81,37 +116,58 @@ interface Contrat {
   quotiteCategorie?: string;
   quotite?: string;
   modaliteTemps?: string;
+  idcc?: string; // S21.G00.40.017 (collective agreement, "9999" = none)
+  statutBoeth?: string; // S21.G00.40.072 (bénéficiaire de l'obligation d'emploi des travailleurs handicapés)
+  motifRupture?: string; // S21.G00.62.002
 }
 
-interface Versement {
+export interface Versement {
   date?: string;
+  remunerationNetteFiscale?: string;
+  montantNetVerse?: string;
   remunerations: Remuneration[];
   primes: Prime[];
   revenuAutres: RevenuAutre[];
 }
 
-interface Remuneration {
+export interface Remuneration {
   dateDebut?: string;
   dateFin?: string;
   numeroContrat?: string;
+  contrat?: Contrat; // Resolved from numeroContrat against the individual's contracts
   type?: string;
   nombreHeures?: string;
   montant?: string;
   activites: Activite[];
 }
 
-interface Activite {
+export interface ArretTravail {
+  motif?: string;                 // S21.G00.60.001 (01 maladie, 02 maternité, 03 paternité, 04 trajet, 05 maladie professionnelle, 06 accident du travail)
+  dernierJourTravaille?: string;  // S21.G00.60.002
+  dateFinPrevisionnelle?: string; // S21.G00.60.003
+  dateReprise?: string;           // S21.G00.60.010
+  motifReprise?: string;          // S21.G00.60.011
+  dateAccident?: string;          // S21.G00.60.012 (accident or first medical finding)
+}
+
+export interface Suspension {
+  motif?: string;     // S21.G00.65.001 (e.g. 507 congé parental d'éducation)
+  dateDebut?: string; // S21.G00.65.002
+  dateFin?: string;   // S21.G00.65.003
+}
+
+export interface Activite {
   type?: string;
   mesure?: string;
   unite?: string;
 }
 
-interface Prime {
+export interface Prime {
   type?: string;
   montant?: string;
 }
 
-interface RevenuAutre {
+export interface RevenuAutre {
   type?: string;
   montant?: string;
 }
@@ -122,23 +178,130 @@ const getLastBloc = <T>(array: T[]): T => {
   return array[array.length - 1];
 };
 
-const getBloc = (rows: DSNRow[], index: number, blocCode: string): Record<string, string> => {
-  const bloc: Record<string, string> = {};
-  let valueCode = rows[index]?.valueCode || "001";
-  let currentIndex = index;
-
-  while (
-    currentIndex < rows.length &&
-    rows[currentIndex].blocCode === blocCode &&
-    parseInt(rows[currentIndex].valueCode) >= parseInt(valueCode)
-  ) {
-    const row = rows[currentIndex];
-    bloc[row.rubriqueCode] = row.value;
-    valueCode = row.valueCode;
-    currentIndex++;
+const getLastIndividu = (declaration: Declaration): Individu | undefined => {
+  const etablissements = declaration.entreprise?.etablissements || [];
+  if (etablissements.length === 0) return undefined;
+  return getLastBloc(getLastBloc(etablissements).individus);
+};
+
+/**
+ * Returns the payment block (S21.G00.50) that subsequent remuneration, bonus
+ * and other income blocks belong to. Some producers omit S21.G00.50 before
+ * S21.G00.51; an undated payment is created so those amounts are not lost.
+ */
+const getCurrentVersement = (individu: Individu): Versement => {
+  if (individu.versements.length === 0) {
+    individu.versements.push({ remunerations: [], primes: [], revenuAutres: [] });
+  }
+  return getLastBloc(individu.versements);
+};
+
+/**
+ * Groups consecutive rows into blocks. A block ends when the block code changes
+ * or when the rubrique number does not increase, which marks a repeated block
+ * (ex. two consecutive S21.G00.51 remunerations, or two S21.G00.54 blocks both
+ * made of .001 and .002).
+ */
+async function* groupBlocs(rows: AsyncIterable<DSNRow> | Iterable<DSNRow>): AsyncGenerator<DsnBloc> {
+  let current: DsnBloc | null = null;
+  let lastValueCode = 0;
+
+  for await (const row of rows) {
+    const valueCode = parseInt(row.valueCode);
+
+    if (!current || row.blocCode !== current.blocCode || valueCode <= lastValueCode) {
+      if (current) yield current;
+      current = { blocCode: row.blocCode, line: row.line, rubriqueCode: row.rubriqueCode, values: {} };
+    }
+
+    current.values[row.rubriqueCode] = row.value;
+    lastValueCode = valueCode;
   }
 
-  return bloc;
+  if (current) yield current;
+}
+
+/**
+ * Splits a byte/text stream into lines without buffering the whole content.
+ * Handles multi-byte UTF-8 characters and CRLF line endings split across chunks.
+ */
+async function* readLines(source: DsnStreamSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8");
+  let pending = "";
+
+  for await (const chunk of toAsyncIterable(source)) {
+    pending += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline = pending.indexOf("\n");
+    while (newline !== -1) {
+      yield pending.substring(0, newline).replace(/\r$/, "");
+      pending = pending.substring(newline + 1);
+      newline = pending.indexOf("\n");
+    }
+  }
+
+  pending += decoder.decode();
+  if (pending.length > 0) yield pending.replace(/\r$/, "");
+}
+
+function toAsyncIterable(source: DsnStreamSource): AsyncIterable<Uint8Array | string> {
+  if (Symbol.asyncIterator in source) {
+    return source as AsyncIterable<Uint8Array | string>;
+  }
+
+  const reader = (source as ReadableStream<Uint8Array>).getReader();
+  return {
+    async *[Symbol.asyncIterator]() {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) return;
+          yield value;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  };
+}
+
+/**
+ * Lines skipped silently: blank lines, "#" comments and bloc separators
+ * without rubrique number (ex. S21.G00.30,'') emitted by some payroll exports.
+ */
+const isIgnorableLine = (row: string): boolean => {
+  const trimmed = row.trim();
+  return trimmed === "" || trimmed.startsWith("#") || /^S[0-9]{2}\.G[0-9]{2}\.[0-9]{2},''$/.test(trimmed);
+};
+
+
+/**
+ * Parses one line into a row. Unrecognized lines are reported in `errors`
+ * and yield null.
+ */
+const parseDsnLine = (row: string, line: number, errors: DsnValidationIssue[]): DSNRow | null => {
+  if (/^S[0-9]{2}\.G[0-9]{2}\.[0-9]{2}\.[0-9]{3},'.*'/.test(row)) // ex. S20.G00.05.002,'01'
+  {
+    return {
+      line,
+      blocCode: row.substring(0,10),       // get code rubrique
+      rubriqueCode: row.substring(0,14),
+      valueCode: row.substring(11,14),
+      value: row.substring(16,row.length-1),
+    };
+  }
+
+  if (!isIgnorableLine(row)) {
+    errors.push({
+      line,
+      rubriqueCode: null,
+      severity: "warning",
+      code: "UNRECOGNIZED_LINE",
+      message: `Line ignored, expected the format S00.G00.00.000,'value': "${row.substring(0, 60)}"`,
+    });
+  }
+
+  return null;
 };
 
 
@@ -148,36 +311,21 @@ const getBloc = (rows: DSNRow[], index: number, blocCode: string): Record<string
  *  SSR-safe: this function is pure and does not rely on browser APIs.
  * It can be safely executed in Remix loaders/actions.
  */
-export const DSNFileReader = async (content) =>
+export const DSNFileReader = async (content: string): Promise<DataDSN> =>
   {
     // Segmentations des lignes
-    const rows = content.replaceAll('\r','').split('\n');
+    const rows = content.replace(/\r/g, '').split('\n');
   
-    const dataDSN = {
+    const dataDSN: DataDSN = {
       rows: [],
       errors: []
     };
   
     // Lecture des lignes
-    for (let row of rows)
+    for (const [lineIndex, row] of rows.entries())
     {
-      if (/^S[0-9]{2}\.G[0-9]{2}\.[0-9]{2}\.[0-9]{3},'.*'/.test(row)) // ex. S20.G00.05.002,'01'
-      {
-        // get code rubrique
-        let blocCode = row.substring(0,10);
-        let rubriqueCode = row.substring(0,14);
-        let valueCode = row.substring(11,14);
-  
-        // value
-        let value = row.substring(16,row.length-1);
-    
-        dataDSN.rows.push({
-          blocCode,
-          rubriqueCode,
-          valueCode,
-          value
-        })
-      }
+      const parsed = parseDsnLine(row, lineIndex + 1, dataDSN.errors);
+      if (parsed) dataDSN.rows.push(parsed);
     }
   
 
@@ -188,21 +336,67 @@ export const DSNFileReader = async (content) =>
   }
 
 
+/**
+ * Builds the declaration from already parsed rows.
+ */
 export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
+  return readDeclaration(groupBlocs(dataDSN.rows), [...dataDSN.errors]);
+};
+
+
+/**
+ * Streaming counterpart of DSNFileReader + DSNDataReader: produces the same
+ * Declaration from a stream, reading one block at a time instead of holding
+ * the whole file and every row in memory.
+ */
+export const DSNStreamReader = async (source: DsnStreamSource): Promise<Declaration> => {
+  const errors: DsnValidationIssue[] = [];
+
+  async function* rows(): AsyncGenerator<DSNRow> {
+    let line = 0;
+    for await (const text of readLines(source)) {
+      line++;
+      const parsed = parseDsnLine(text, line, errors);
+      if (parsed) yield parsed;
+    }
+  }
+
+  return readDeclaration(groupBlocs(rows()), errors);
+};
+
+
+/**
+ * Walks the blocks in file order and attaches each one to the declaration.
+ * `errors` is shared with the row reader so line-level issues found while
+ * streaming end up in declaration.errors.
+ */
+const readDeclaration = async (
+  blocs: AsyncIterable<DsnBloc>,
+  errors: DsnValidationIssue[]
+): Promise<Declaration> => {
   const declaration: Declaration = {
-    errors: [],
+    errors,
     validStatement: true,
   };
 
-  const { rows } = dataDSN;
-  let index = 0;
+  const seenBlocCodes = new Set<string>();
+
+  for await (const { blocCode, line, rubriqueCode, values: bloc } of blocs) {
+    seenBlocCodes.add(blocCode);
 
-  while (index < rows.length) {
-    const row = rows[index];
-    let { blocCode, valueCode } = row;
+    const addIssue = (
+      issue: Omit<DsnValidationIssue, "line" | "rubriqueCode"> & { rubriqueCode?: string }
+    ) => {
+      declaration.errors.push({ line, rubriqueCode, ...issue });
+    };
+
+    const orphanBloc = () => addIssue({
+      severity: "error",
+      code: "BLOC_WITHOUT_INDIVIDU",
+      message: `Block ${blocCode} declared before any individual (S21.G00.30).`,
+    });
 
     if (blocCode === "S20.G00.05") {
-      const bloc = getBloc(rows, index, blocCode);
       declaration.nature = bloc["S20.G00.05.001"];
       declaration.type = bloc["S20.G00.05.002"];
       declaration.fraction = bloc["S20.G00.05.003"];
@@ -214,7 +408,6 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
     }
 
     else if (blocCode === "S21.G00.06") {
-      const bloc = getBloc(rows, index, blocCode);
       declaration.entreprise = {
         siren: bloc["S21.G00.06.001"],
         nic: bloc["S21.G00.06.002"],
@@ -225,7 +418,6 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
     
     //S21.GOO.11
     else if (blocCode === "S21.G00.11") {
-      const bloc = getBloc(rows, index, blocCode);
       
       // Initialize entreprise and etablissements array if needed
       if (!declaration.entreprise) {
@@ -236,6 +428,9 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
       
       const newEtablissement = {
         nic: bloc["S21.G00.11.001"],
+        adresse: bloc["S21.G00.11.003"],
+        codePostal: bloc["S21.G00.11.004"],
+        localite: bloc["S21.G00.11.005"],
         countryCode: bloc["S21.G00.11.015"],
         individus: [],
       };
@@ -246,16 +441,18 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
     
 
     else if (blocCode === "S21.G00.30") {
-        const bloc = getBloc(rows, index, blocCode);
         const individu: Individu = {
           identifiant: bloc["S21.G00.30.001"],
           nomFamille: bloc["S21.G00.30.002"],
           nomUsage: bloc["S21.G00.30.003"],
           prenoms: bloc["S21.G00.30.004"],
           sexe: bloc["S21.G00.30.005"],
+          dateNaissance: bloc["S21.G00.30.006"],
           identifiantTechnique: bloc["S21.G00.30.020"],
           contrats: [],
           versements: [],
+          arrets: [],
+          suspensions: [],
         };
         
         // Add to the LAST establishment (most recently created)
@@ -263,13 +460,16 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
         if (etablissements.length > 0) {
           etablissements[etablissements.length - 1].individus.push(individu);
         } else {
-          // Handle case where there's no establishment (shouldn't happen in valid DSN)
-          console.warn("Individual found without establishment:", individu.identifiant);
+          // Shouldn't happen in valid DSN: the individual cannot be attributed
+          addIssue({
+            severity: "error",
+            code: "INDIVIDU_WITHOUT_ETABLISSEMENT",
+            message: `Individual ${individu.identifiant ?? "(no NIR)"} declared before any establishment (S21.G00.11).`,
+          });
         }
       }
 
     /*else if (blocCode === "S21.G00.40") {
-      const bloc = getBloc(rows, index, blocCode);
       const contrat: Contrat = {
         dateDebut: bloc["S21.G00.40.001"],
         statutConventionnel: bloc["S21.G00.40.002"],
@@ -289,7 +489,6 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
       }
     }*/
     else if (blocCode === "S21.G00.40") {
-        const bloc = getBloc(rows, index, blocCode);
         const contrat: Contrat = {
           dateDebut: bloc["S21.G00.40.001"],
           statutConventionnel: bloc["S21.G00.40.002"],
@@ -302,24 +501,28 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
           quotiteCategorie: bloc["S21.G00.40.012"],
           quotite: bloc["S21.G00.40.013"],
           modaliteTemps: bloc["S21.G00.40.014"],
+          idcc: bloc["S21.G00.40.017"],
+          statutBoeth: bloc["S21.G00.40.072"],
         };
         
         // Add contract to the LAST individual in the LAST establishment
-        const etablissements = declaration.entreprise?.etablissements || [];
-        if (etablissements.length > 0) {
-          const lastEtablissement = etablissements[etablissements.length - 1];
-          if (lastEtablissement.individus.length > 0) {
-            const lastIndividu = lastEtablissement.individus[lastEtablissement.individus.length - 1];
-            lastIndividu.contrats.push(contrat);
-          }
+        const lastIndividu = getLastIndividu(declaration);
+        if (lastIndividu) {
+          lastIndividu.contrats.push(contrat);
+        } else {
+          addIssue({
+            severity: "error",
+            code: "CONTRAT_WITHOUT_INDIVIDU",
+            message: `Contract ${contrat.numero ?? "(no number)"} declared before any individual (S21.G00.30).`,
+          });
         }
       }
 
 
     // Handle contract end dates (S21.G00.62)
     else if (blocCode === "S21.G00.62") {
-      const bloc = getBloc(rows, index, blocCode);
       const dateFin = bloc["S21.G00.62.001"];
+      const motifRupture = bloc["S21.G00.62.002"];
       
       // Attach to last contract of last individual in last establishment
       const etablissements = declaration.entreprise?.etablissements || [];
@@ -328,26 +531,156 @@ export const DSNDataReader = async (dataDSN: DataDSN): Promise<Declaration> => {
         if (lastEtablissement.individus.length > 0) {
           const lastIndividu = lastEtablissement.individus[lastEtablissement.individus.length - 1];
           if (lastIndividu.contrats.length > 0) {
-            lastIndividu.contrats[lastIndividu.contrats.length - 1].dateFin = dateFin;
+            const lastContrat = lastIndividu.contrats[lastIndividu.contrats.length - 1];
+            lastContrat.dateFin = dateFin;
+            lastContrat.motifRupture = motifRupture;
+          }
+        }
+      }
+      if (!getLastIndividu(declaration)) orphanBloc();
+    }
+
+    // Work stoppages (S21.G00.60) and other contract suspensions (S21.G00.65)
+    else if (blocCode === "S21.G00.60") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        individu.arrets.push({
+          motif: bloc["S21.G00.60.001"],
+          dernierJourTravaille: bloc["S21.G00.60.002"],
+          dateFinPrevisionnelle: bloc["S21.G00.60.003"],
+          dateReprise: bloc["S21.G00.60.010"],
+          motifReprise: bloc["S21.G00.60.011"],
+          dateAccident: bloc["S21.G00.60.012"],
+        });
+      } else {
+        orphanBloc();
+      }
+    }
+
+    else if (blocCode === "S21.G00.65") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        individu.suspensions.push({
+          motif: bloc["S21.G00.65.001"],
+          dateDebut: bloc["S21.G00.65.002"],
+          dateFin: bloc["S21.G00.65.003"],
+        });
+      } else {
+        orphanBloc();
+      }
+    }
+
+    // Payments (S21.G00.50) and their detail blocks (S21.G00.51 to S21.G00.54)
+    else if (blocCode === "S21.G00.50") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        individu.versements.push({
+          date: bloc["S21.G00.50.001"],
+          remunerationNetteFiscale: bloc["S21.G00.50.002"],
+          montantNetVerse: bloc["S21.G00.50.004"],
+          remunerations: [],
+          primes: [],
+          revenuAutres: [],
+        });
+      } else {
+        orphanBloc();
+      }
+    }
+
+    else if (blocCode === "S21.G00.51") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        const numeroContrat = bloc["S21.G00.51.010"];
+        const remuneration: Remuneration = {
+          dateDebut: bloc["S21.G00.51.001"],
+          dateFin: bloc["S21.G00.51.002"],
+          numeroContrat,
+          type: bloc["S21.G00.51.011"],
+          nombreHeures: bloc["S21.G00.51.012"],
+          montant: bloc["S21.G00.51.013"],
+          activites: [],
+        };
+
+        // Link to the contract carrying the same number (S21.G00.40.009)
+        if (numeroContrat) {
+          remuneration.contrat = individu.contrats.find(c => c.numero === numeroContrat);
+          if (!remuneration.contrat) {
+            addIssue({
+              severity: "warning",
+              rubriqueCode: "S21.G00.51.010",
+              code: "UNKNOWN_CONTRACT_NUMBER",
+              message: `Remuneration refers to contract ${numeroContrat}, not declared for individual ${individu.identifiant ?? "(no NIR)"}.`,
+            });
           }
         }
+
+        getCurrentVersement(individu).remunerations.push(remuneration);
+      } else {
+        orphanBloc();
       }
     }
-    // ... (repeat same pattern for S21.G00.50, .51, .52, .53, .54)
-    // For brevity, I’ll skip full repetition — apply same typing logic
-
-    // Advance index past current block
-    while (
-      index < rows.length &&
-      rows[index].blocCode === blocCode &&
-      parseInt(rows[index].valueCode) >= parseInt(valueCode)
-    ) {
-      index++;
-      if (index < rows.length) valueCode = rows[index].valueCode;
+
+    else if (blocCode === "S21.G00.52") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        getCurrentVersement(individu).primes.push({
+          type: bloc["S21.G00.52.001"],
+          montant: bloc["S21.G00.52.002"],
+        });
+      } else {
+        orphanBloc();
+      }
+    }
+
+    // Activities (S21.G00.53) detail the last remuneration block
+    else if (blocCode === "S21.G00.53") {
+      const individu = getLastIndividu(declaration);
+      const remunerations = individu && individu.versements.length > 0 ? getLastBloc(individu.versements).remunerations : [];
+      if (remunerations.length > 0) {
+        getLastBloc(remunerations).activites.push({
+          type: bloc["S21.G00.53.001"],
+          mesure: bloc["S21.G00.53.002"],
+          unite: bloc["S21.G00.53.003"],
+        });
+      } else if (individu) {
+        addIssue({
+          severity: "warning",
+          code: "ACTIVITE_WITHOUT_REMUNERATION",
+          message: `Activity ${bloc["S21.G00.53.001"] ?? "(no type)"} ignored: no remuneration (S21.G00.51) declared before it for individual ${individu.identifiant ?? "(no NIR)"}.`,
+        });
+      } else {
+        orphanBloc();
+      }
     }
+
+    else if (blocCode === "S21.G00.54") {
+      const individu = getLastIndividu(declaration);
+      if (individu) {
+        getCurrentVersement(individu).revenuAutres.push({
+          type: bloc["S21.G00.54.001"],
+          montant: bloc["S21.G00.54.002"],
+        });
+      } else {
+        orphanBloc();
+      }
+    }
+
   }
 
 
+  // File-level checks
+  declaration.errors.push(...findMissingBlocks(seenBlocCodes));
+  if (seenBlocCodes.has("S20.G00.05") && !declaration.mois) {
+    declaration.errors.push({
+      line: null,
+      rubriqueCode: "S20.G00.05.005",
+      severity: "error",
+      code: "MISSING_REPORTING_MONTH",
+      message: "Missing reporting month (S20.G00.05.005).",
+    });
+  }
+  declaration.validStatement = !declaration.errors.some(issue => issue.severity === "error");
+
   //Debug log
   //console.log("Final declaration:", declaration);
 
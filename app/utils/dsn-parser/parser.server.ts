@@ -1,19 +1,36 @@
-import { DSNFileReader, DSNDataReader } from "./dsn-reader.server";
-import { hasRequiredBlocks } from "./conformity.server";
+import { DSNFileReader, DSNDataReader, DSNStreamReader } from "./dsn-reader.server";
+import type { Declaration, DsnStreamSource } from "./dsn-reader.server";
+import { buildValidationReport, DsnValidationError } from "./conformity.server";
 
 export async function parseDsnFile(content: string) {
-  // Step 1: Conformity check
-  if (!hasRequiredBlocks(content)) {
-    throw new Error("Invalid DSN: missing required S10, S20, or S21 block.");
-  }
-
-  // Step 2: Full parsing
+  // Step 1: Full parsing (issues are collected along the way)
   const dataDSN = await DSNFileReader(content);
   const declaration = await DSNDataReader(dataDSN);
 
+  // Step 2: Conformity check
+  return assertValidDeclaration(declaration);
+}
+
+/**
+ * Streaming variant of parseDsnFile for large uploads: rows are parsed as
+ * chunks arrive and never held in memory all at once.
+ * `fileName` identifies the file in validation errors when several are uploaded.
+ */
+export async function parseDsnStream(source: DsnStreamSource, fileName?: string) {
+  const declaration = await DSNStreamReader(source);
+  return assertValidDeclaration(declaration, fileName);
+}
+
+/**
+ * Rejects declarations with blocking errors; accepted ones keep their
+ * validation report so that warnings can still be shown to the user.
+ */
+function assertValidDeclaration(declaration: Declaration, fileName?: string): Declaration {
+  const report = buildValidationReport(declaration.errors);
   if (!declaration.validStatement) {
-    throw new Error("DSN contains structural errors.");
+    throw new DsnValidationError(report, fileName);
   }
 
+  declaration.validation = report;
   return declaration;
 }
@@ -0,0 +1,201 @@
+import type { Declaration, Etablissement } from "./dsn-reader.server";
+
+/**
+ * A parsed declaration together with the name of the file it came from.
+ */
+export interface UploadedDeclaration {
+  fileName: string;
+  declaration: Declaration;
+}
+
+export interface SupersededFile {
+  fileName: string;
+  reason: string;
+}
+
+export interface ReconciliationResult {
+  declarations: Declaration[]; // One logical declaration per month
+  superseded: SupersededFile[];
+  warnings: string[];
+}
+
+// S20.G00.05.002 - Type de la déclaration
+const TYPE_ANNULE_ET_REMPLACE = ["03", "05"]; // intégral / néant
+const TYPE_ANNULE = "04";
+
+/**
+ * Reconciles the DSNs uploaded for the same company (SIREN, S21.G00.06.001)
+ * and month (S20.G00.05.005) into one logical declaration.
+ *
+ * **Replacement ("annule et remplace")**
+ * Within a fraction, files are ordered by file date (S20.G00.05.007, YYYYMMDD),
+ * then by upload order, and the latest file decides:
+ * - an "annule et remplace" declaration (type 03/05) replaces every earlier file
+ * - an "annule" declaration (type 04) cancels the fraction
+ * - a normal declaration filed again keeps the latest file, including after
+ *   an earlier cancellation or replacement
+ *
+ * **Fractions**
+ * A company may split its monthly DSN into fractions (S20.G00.05.003, "12" =
+ * fraction 1 of 2). The retained file of each fraction is merged into a single
+ * declaration; establishments present in several fractions are merged by NIC.
+ * Missing fractions are reported in `warnings`.
+ *
+ * **One company per upload**
+ * Answers are computed month by month for a single company: uploads mixing
+ * several SIRENs are rejected rather than counted as separate months.
+ *
+ * @param uploads - Parsed declarations in upload order
+ * @returns Logical declarations, superseded files and reconciliation warnings
+ * @throws Error listing the files of each SIREN when several companies are uploaded
+ */
+export function reconcileDeclarations(uploads: UploadedDeclaration[]): ReconciliationResult {
+  assertSingleCompany(uploads);
+
+  const superseded: SupersededFile[] = [];
+  const warnings: string[] = [];
+  const declarations: Declaration[] = [];
+
+  // Group by SIREN + month, then by fraction
+  const groups = new Map<string, Map<string, UploadedDeclaration[]>>();
+  for (const upload of uploads) {
+    const { declaration } = upload;
+    const groupKey = `${declaration.entreprise?.siren ?? "unknown"}|${(declaration.mois ?? "").substring(0, 6)}`;
+    const fraction = parseFraction(declaration.fraction);
+
+    const fractions = groups.get(groupKey) ?? new Map<string, UploadedDeclaration[]>();
+    const files = fractions.get(fraction.number) ?? [];
+    files.push(upload);
+    fractions.set(fraction.number, files);
+    groups.set(groupKey, fractions);
+  }
+
+  for (const [groupKey, fractions] of groups) {
+    const [siren, month] = groupKey.split("|");
+    const retained: Declaration[] = [];
+
+    for (const files of fractions.values()) {
+      const kept = resolveFraction(files, superseded);
+      if (kept) retained.push(kept.declaration);
+    }
+
+    if (retained.length === 0) continue; // Whole month cancelled
+
+    // Expected fraction count is carried by the second digit of S20.G00.05.003
+    const expected = Math.max(...retained.map(d => parseFraction(d.fraction).total));
+    if (fractions.size < expected) {
+      warnings.push(`SIREN ${siren}, month ${month}: ${fractions.size} of ${expected} fractions uploaded.`);
+    }
+
+    declarations.push(retained.length === 1 ? retained[0] : mergeFractions(retained));
+  }
+
+  return { declarations, superseded, warnings };
+}
+
+/**
+ * Rejects uploads declaring several companies (S21.G00.06.001).
+ */
+function assertSingleCompany(uploads: UploadedDeclaration[]): void {
+  const filesBySiren = new Map<string, string[]>();
+  for (const { fileName, declaration } of uploads) {
+    const siren = declaration.entreprise?.siren ?? "unknown";
+    filesBySiren.set(siren, [...(filesBySiren.get(siren) ?? []), fileName]);
+  }
+
+  if (filesBySiren.size > 1) {
+    const companies = [...filesBySiren]
+      .map(([siren, files]) => `SIREN ${siren} (${files.join(", ")})`)
+      .join("; ");
+    throw new Error(`The uploaded DSNs declare several companies: ${companies}. Upload the DSNs of one company at a time.`);
+  }
+}
+
+/**
+ * Picks the file that stands for one fraction and records the others as superseded.
+ */
+function resolveFraction(
+  files: UploadedDeclaration[],
+  superseded: SupersededFile[]
+): UploadedDeclaration | null {
+  const ordered = files
+    .map((file, uploadIndex) => ({ file, uploadIndex }))
+    .sort((a, b) =>
+      (a.file.declaration.dateFichier ?? "").localeCompare(b.file.declaration.dateFichier ?? "") ||
+      a.uploadIndex - b.uploadIndex
+    )
+    .map(({ file }) => file);
+
+  // The newest file decides: its type applies to the whole fraction
+  const latest = ordered[ordered.length - 1];
+
+  if (latest.declaration.type === TYPE_ANNULE) {
+    for (const file of ordered) {
+      superseded.push({
+        fileName: file.fileName,
+        reason: file === latest
+          ? "Cancellation declaration (annule): the month is not reported"
+          : `Cancelled by ${latest.fileName} (annule)`,
+      });
+    }
+    return null;
+  }
+
+  const replaces = TYPE_ANNULE_ET_REMPLACE.includes(latest.declaration.type ?? "");
+  for (const file of ordered) {
+    if (file === latest) continue;
+    superseded.push({
+      fileName: file.fileName,
+      reason: replaces
+        ? `Replaced by ${latest.fileName} (annule et remplace)`
+        : `Same month declared again in ${latest.fileName}; the latest file is kept`,
+    });
+  }
+
+  return latest;
+}
+
+/**
+ * Merges the fractions of one month into a single logical declaration.
+ */
+function mergeFractions(fractions: Declaration[]): Declaration {
+  const [first] = fractions;
+  const etablissements = new Map<string, Etablissement>();
+  const unidentified: Etablissement[] = [];
+
+  for (const declaration of fractions) {
+    for (const etablissement of declaration.entreprise?.etablissements ?? []) {
+      if (!etablissement.nic) {
+        unidentified.push(etablissement);
+        continue;
+      }
+
+      const existing = etablissements.get(etablissement.nic);
+      if (existing) {
+        existing.individus = [...existing.individus, ...etablissement.individus];
+      } else {
+        etablissements.set(etablissement.nic, { ...etablissement, individus: [...etablissement.individus] });
+      }
+    }
+  }
+
+  return {
+    ...first,
+    fraction: fractions.map(d => d.fraction ?? "").join("+"),
+    entreprise: {
+      ...first.entreprise,
+      etablissements: [...etablissements.values(), ...unidentified],
+    },
+    errors: fractions.flatMap(d => d.errors),
+    validStatement: fractions.every(d => d.validStatement),
+  };
+}
+
+/**
+ * Parses S20.G00.05.003: first digit = fraction number, second = number of fractions.
+ * Absent or malformed values are treated as a single fraction ("11").
+ */
+function parseFraction(code: string | undefined): { number: string; total: number } {
+  if (!code || !/^\d{2}$/.test(code)) return { number: "1", total: 1 };
+  return { number: code[0], total: parseInt(code[1], 10) };
+}
@@ -0,0 +1,74 @@
+import { ContractPeriod, Employee } from "./types.server";
+
+/**
+ * Employment status of a person, read from their whole contract timeline
+ * (every S21.G00.40 block declared for them) rather than from a single contract.
+ *
+ * A person holding two concurrent contracts, or whose contract was replaced
+ * mid-month (e.g. a CDD converted into a CDI), is employed as long as one of
+ * their contracts covers the date.
+ */
+
+/**
+ * True when one of the employee's contracts covers `date`
+ * (start ≤ date ≤ end, a contract without end date being still open).
+ */
+export function isEmployedOn(employee: Employee, date: Date): boolean {
+  return employee.contracts.some(contract => isContractActiveOn(contract, date));
+}
+
+/**
+ * True when the contract covers `date` (start ≤ date ≤ end, open without end date).
+ */
+export function isContractActiveOn(contract: ContractPeriod, date: Date): boolean {
+  return contract.start !== null && contract.start <= date &&
+    (contract.end === null || contract.end >= date);
+}
+
+/**
+ * True when the employee is employed on `date` and still under contract the
+ * day after, i.e. `date` is not their last day of employment.
+ */
+export function isEmployedBeyond(employee: Employee, date: Date): boolean {
+  return employee.contracts.some(contract =>
+    contract.start !== null && contract.start <= date &&
+    (contract.end === null || contract.end > date)
+  );
+}
+
+/**
+ * Start and end of employment over a contract timeline:
+ * - start: earliest contract start
+ * - end: latest contract end, or null while any contract is still open
+ */
+export function getEmploymentSpan(contracts: ContractPeriod[]): { start: Date | null; end: Date | null } {
+  const starts = contracts
+    .map(contract => contract.start)
+    .filter((date): date is Date => date !== null);
+  const start = starts.length > 0 ? new Date(Math.min(...starts.map(date => date.getTime()))) : null;
+
+  if (contracts.length === 0 || contracts.some(contract => contract.end === null)) {
+    return { start, end: null };
+  }
+
+  const end = new Date(Math.max(...contracts.map(contract => contract.end!.getTime())));
+  return { start, end };
+}
+
+/**
+ * Contracts that ended within the period while the employee was still under
+ * contract in another establishment the day after: intra-group transfers,
+ * which are not departures.
+ */
+export function findTransfers(employee: Employee, period: { start: Date; end: Date }): ContractPeriod[] {
+  return employee.contracts.filter(ended => {
+    if (!ended.end || ended.end < period.start || ended.end > period.end) return false;
+
+    const nextDay = new Date(ended.end.getFullYear(), ended.end.getMonth(), ended.end.getDate() + 1);
+    return employee.contracts.some(contract =>
+      contract.establishment !== ended.establishment &&
+      contract.start !== null && contract.start <= nextDay &&
+      (contract.end === null || contract.end >= nextDay)
+    );
+  });
+}
@@ -72,4 +72,133 @@ export function extractReportingPeriod(declaration: Declaration): { start: Date;
   const end = new Date(year, month + 1, 0); // Last day of the month (automatically handles leap years)
 
   return { start, end };
-}
\ No newline at end of file
+}
+
+
+/**
+ * Reporting period covered by a set of monthly DSN declarations.
+ * `missingMonths` lists the months of the period with no uploaded declaration.
+ */
+export interface ReportingPeriodCoverage {
+  start: Date;
+  end: Date;
+  coveredMonths: { year: number; month: number }[];
+  missingMonths: { year: number; month: number }[];
+}
+
+/**
+ * Extracts the reporting period from one or several DSN declarations.
+ *
+ * - A single declaration keeps the monthly behaviour of `extractReportingPeriod`
+ * - Several declarations are reported over a full fiscal year (CSRD S1-6 is annual):
+ *   the calendar year of the most recent declaration, from Jan 1 to Dec 31
+ *
+ * - A period chosen by the user (e.g. a fiscal year from April to March) replaces
+ *   both; it must overlap at least one uploaded month
+ *
+ * Months of the period without any declaration are returned in `missingMonths`
+ * so the UI can flag an incomplete year.
+ *
+ *  **Example**
+ *   ["202501", ..., "202511"] → Jan 1, 2025 to Dec 31, 2025, missing: Dec 2025
+ *
+ * @param declarations - Parsed DSN declarations (one per month, any order)
+ * @param requestedPeriod - Reporting period set by the user, if any
+ * @throws Error if the set is empty, a declaration has an invalid period, or the
+ *   requested period is inverted or covers none of the uploaded months
+ */
+export function extractReportingPeriodFromSet(
+  declarations: Declaration[],
+  requestedPeriod?: { start: Date; end: Date }
+): ReportingPeriodCoverage {
+  if (declarations.length === 0) {
+    throw new Error("No DSN declaration provided.");
+  }
+
+  const monthlyPeriods = declarations.map(extractReportingPeriod);
+  const latest = monthlyPeriods.reduce((a, b) => (b.start > a.start ? b : a));
+
+  if (requestedPeriod) {
+    if (requestedPeriod.start > requestedPeriod.end) {
+      throw new Error("Invalid reporting period: the start date is after the end date.");
+    }
+    if (!monthlyPeriods.some(p => p.start <= requestedPeriod.end && p.end >= requestedPeriod.start)) {
+      throw new Error(
+        `The reporting period ${formatPeriodLabel(requestedPeriod)} does not cover any uploaded DSN month ` +
+        `(${monthlyPeriods.map(formatPeriodLabel).join(", ")}).`
+      );
+    }
+  }
+
+  const { start, end } = requestedPeriod
+    ? requestedPeriod
+    : declarations.length === 1
+      ? latest
+      : {
+          start: new Date(latest.start.getFullYear(), 0, 1),
+          end: new Date(latest.start.getFullYear(), 11, 31),
+        };
+
+  const declaredMonths = new Set(
+    monthlyPeriods.map(p => `${p.start.getFullYear()}-${p.start.getMonth()}`)
+  );
+  const months = getMonthsInPeriod(start, end);
+
+  return {
+    start,
+    end,
+    coveredMonths: months.filter(m => declaredMonths.has(`${m.year}-${m.month}`)),
+    missingMonths: months.filter(m => !declaredMonths.has(`${m.year}-${m.month}`)),
+  };
+}
+
+/**
+ * Lists the calendar months (month is 0-indexed) overlapping [start, end].
+ */
+export function getMonthsInPeriod(start: Date, end: Date): { year: number; month: number }[] {
+  const months = [];
+  const current = new Date(start.getFullYear(), start.getMonth(), 1);
+  const endTruncated = new Date(end.getFullYear(), end.getMonth(), 1);
+  
+  while (current <= endTruncated) {
+    months.push({ year: current.getFullYear(), month: current.getMonth() });
+    current.setMonth(current.getMonth() + 1);
+  }
+  
+  return months;
+}
+
+/**
+ * Formats a period for display: "Nov 2025" or "Jan 2025 - Dec 2025", or with
+ * days ("15 Apr 2025 - 14 Apr 2026") when it does not span whole months.
+ */
+export function formatPeriodLabel(period: { start: Date; end: Date }): string {
+  const start = period.start;
+  const end = period.end;
+  
+  const wholeMonths = start.getDate() === 1 &&
+    end.getDate() === new Date(end.getFullYear(), end.getMonth() + 1, 0).getDate();
+  if (!wholeMonths) {
+    const format = (date: Date) => date.toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+    return `${format(start)} - ${format(end)}`;
+  }
+  
+  // Single month
+  if (start.getFullYear() === end.getFullYear() && start.getMonth() === end.getMonth()) {
+    return `${start.toLocaleString('en-US', { month: 'short', year: 'numeric' })}`;
+  }
+  
+  // Multi-month
+  return `${start.toLocaleString('en-US', { month: 'short', year: 'numeric' })} - ${end.toLocaleString('en-US', { month: 'short', year: 'numeric' })}`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD for explanations. Reads the local calendar
+ * date: DSN dates are built at local midnight, which toISOString() would
+ * shift to the previous day east of UTC.
+ */
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
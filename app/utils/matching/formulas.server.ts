@@ -0,0 +1,143 @@
+import { QuestionNode } from "~/utils/questions/types";
+import { FormulaExpression, referenceMatches } from "~/utils/questions/formula";
+import { Answer, TOTAL_DIMENSION_VALUE } from "./types.server";
+
+/**
+ * Evaluates the formula questions of the tree once every other answer is
+ * computed, adding one answer per formula question (global scope).
+ *
+ * A formula referencing another formula question is evaluated after it;
+ * references to answers that do not exist or are not numbers give a null value.
+ *
+ * Explanations show the substituted values:
+ * "S1-6_11 / S1-6_03 * 100 = 3 / 12 * 100 = 25"
+ *
+ * @throws Error when formulas reference each other in a cycle
+ */
+export function evaluateFormulas(questionTree: QuestionNode[], answers: Record<string, Answer>): void {
+  const formulaNodes = new Map<string, QuestionNode>();
+  collectFormulaNodes(questionTree, formulaNodes);
+
+  const evaluated = new Set<string>();
+  const path: string[] = []; // Formulas being evaluated, for cycle detection
+
+  function visit(node: QuestionNode): void {
+    if (evaluated.has(node.id)) return;
+    if (path.includes(node.id)) {
+      const cycle = [...path.slice(path.indexOf(node.id)), node.id];
+      throw new Error(`Circular formula: ${cycle.join(" → ")}`);
+    }
+
+    path.push(node.id);
+    for (const dependency of formulaNodes.values()) {
+      if (node.formula!.references.some(reference => referenceMatches(reference, dependency.id))) {
+        visit(dependency);
+      }
+    }
+    path.pop();
+
+    answers[node.id] = evaluateFormula(node, answers);
+    evaluated.add(node.id);
+  }
+
+  formulaNodes.forEach(visit);
+}
+
+function collectFormulaNodes(nodes: QuestionNode[], formulaNodes: Map<string, QuestionNode>): void {
+  for (const node of nodes) {
+    if (node.formula) formulaNodes.set(node.id, node);
+    collectFormulaNodes(node.children, formulaNodes);
+  }
+}
+
+function evaluateFormula(node: QuestionNode, answers: Record<string, Answer>): Answer {
+  const { expression, ast } = node.formula!;
+  const answer = { questionId: node.id, dimensions: {}, source: "computed" as const };
+  const missing = node.formula!.references.filter(reference =>
+    !reference.includes("*") && typeof answers[reference]?.value !== "number"
+  );
+
+  if (missing.length > 0) {
+    return { ...answer, value: null, explanation: `${expression}: no numeric answer for ${missing.join(", ")}` };
+  }
+
+  const value = evaluate(ast, answers);
+  const substituted = `${expression} = ${substitute(ast, answers)}`;
+
+  if (!Number.isFinite(value)) {
+    return { ...answer, value: null, explanation: `${substituted} (division by zero)` };
+  }
+
+  const rounded = Math.round(value * 100) / 100;
+  return { ...answer, value: rounded, explanation: `${substituted} = ${rounded}` };
+}
+
+/**
+ * Numeric answers designated by a reference, ordered by answer key.
+ * Patterns leave out table totals, which would count the cells twice.
+ */
+function referencedValues(reference: string, answers: Record<string, Answer>): number[] {
+  const isTotal = (answer: Answer) => Object.values(answer.dimensions).includes(TOTAL_DIMENSION_VALUE);
+
+  return Object.keys(answers)
+    .filter(key => referenceMatches(reference, key))
+    .filter(key => !reference.includes("*") || !isTotal(answers[key]))
+    .sort()
+    .map(key => answers[key].value)
+    .filter((value): value is number => typeof value === "number");
+}
+
+function evaluate(expression: FormulaExpression, answers: Record<string, Answer>): number {
+  switch (expression.type) {
+    case "number":
+      return expression.value;
+    case "reference":
+      return referencedValues(expression.id, answers).reduce((sum, value) => sum + value, 0);
+    case "negate":
+      return -evaluate(expression.operand, answers);
+    case "binary": {
+      const left = evaluate(expression.left, answers);
+      const right = evaluate(expression.right, answers);
+      switch (expression.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return left / right;
+      }
+    }
+  }
+}
+
+const PRECEDENCE = { "+": 1, "-": 1, "*": 2, "/": 2 };
+
+/**
+ * Formula text with every reference replaced by its value(s), a pattern
+ * matching several answers being shown as their sum, e.g. "(2 + 1) / 12 * 100".
+ */
+function substitute(expression: FormulaExpression, answers: Record<string, Answer>): string {
+  switch (expression.type) {
+    case "number":
+      return String(expression.value);
+    case "reference": {
+      const values = referencedValues(expression.id, answers);
+      if (values.length === 0) return "0";
+      return values.length === 1 ? String(values[0]) : `(${values.join(" + ")})`;
+    }
+    case "negate": {
+      const operand = substitute(expression.operand, answers);
+      return expression.operand.type === "binary" ? `-(${operand})` : `-${operand}`;
+    }
+    case "binary": {
+      const precedence = PRECEDENCE[expression.operator];
+      const wrap = (operand: FormulaExpression, rightSide: boolean): string => {
+        const text = substitute(operand, answers);
+        if (operand.type !== "binary") return text;
+        const operandPrecedence = PRECEDENCE[operand.operator];
+        const needsParentheses = operandPrecedence < precedence ||
+          (rightSide && operandPrecedence === precedence && (expression.operator === "-" || expression.operator === "/"));
+        return needsParentheses ? `(${text})` : text;
+      };
+      return `${wrap(expression.left, false)} ${expression.operator} ${wrap(expression.right, true)}`;
+    }
+  }
+}
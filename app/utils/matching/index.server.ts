@@ -1,15 +1,12 @@
 import { QuestionNode } from "~/utils/questions/types";
 import { Declaration } from "~/utils/dsn-parser/dsn-reader.server";
-import { Answer } from "./types.server";
-import { normalizeEmployees, NormalizedEmployee } from "./normalize.server";
-import { extractReportingPeriod } from "./extract-period.server";
-
-// Import all strategies
-import { computeHeadcountAtPeriodEnd } from "./strategies/headcount-at-period-end.server";
-import { computeAverageHeadcount } from "./strategies/average-headcount.server";
-import { computeLeavers } from "./strategies/leavers.server";
-import { computeTurnoverRate } from "./strategies/turnover-rate.server";
-import { groupByAttribute } from "./strategies/group-by-attribute.server";
+import { Answer, AnswerDimensions, ComputeOptions, Employee, TOTAL_DIMENSION_VALUE } from "./types.server";
+import { normalizeEmployees } from "./normalize.server";
+import { extractReportingPeriodFromSet } from "./extract-period.server";
+import { mergeEmployeeTimelines } from "./merge-declarations.server";
+import { getMetricStrategy, getTableDimensions, StrategyContext, TableDimension } from "./registry.server";
+import { pivotEmployees } from "./pivot.server";
+import { evaluateFormulas } from "./formulas.server";
 
 /**
  * Orchestrates automated answer computation for Kiosk's ESG questionnaire.
@@ -20,41 +17,99 @@ import { groupByAttribute } from "./strategies/group-by-attribute.server";
  * - Handles table containers with dynamic row expansion
  * - Provides context-aware computation for disaggregated metrics
  * 
+ * **Strategy Registry**
+ * No question ID is hard-coded here: each question is bound to a named strategy
+ * by the "strategy" column of questions.csv or by config/strategy-bindings.ts
+ * (see registry.server.ts). Leaf questions run their metric strategy on all
+ * employees; tables bound to `group-by:<dimension>` run the metric strategy of
+ * each child question on every group of employees.
+ * 
+ * **Formulas**
+ * Questions with a "formula" column (e.g. `S1-6_11 / S1-6_03 * 100`) are
+ * evaluated last, each after the formulas it references (see evaluateFormulas).
+ * 
  * **Regional Data Handling (ESRS Compliance)**
+ * Question S1-6_08 ("Employees by region") uses the NUTS-2 region of the
+ * establishment postal code (S21.G00.11.004, see getEstablishmentRegion).
  * Per ESRS S1-6-3 guidance: "If regional breakdown is not feasible, disclose by country."
- * Since DSN only provides country-level data (S21.G00.30.029), we treat each country as a region
- * for question S1-6_08 ("Employees by region").
+ * Foreign establishments, and French ones without postal code, are reported by country.
  * 
- * **Grouping Strategy Matrix**
+ * **Grouping Strategy Matrix** (default bindings)
  * | Table Question | Grouping Attribute | Source DSN Field | Output Pattern |
  * |----------------|-------------------|------------------|----------------|
- * | S1-6_04 (country) | country | S21.G00.30.029 | S1-6_05_{COUNTRY_CODE} |
- * | S1-6_07 (gender) | gender | S21.G00.30.005 | K_718_{GENDER_CODE} |
- * | S1-6_08 (region) | country* | S21.G00.30.029 | S1-6_09_{COUNTRY_CODE} |
+ * | S1-6_04 (country) | country | S21.G00.11.015 | S1-6_05_{COUNTRY_CODE} |
+ * | S1-6_07 (gender × contract) | gender, contractType | S21.G00.30.005, S21.G00.40.007 | K_718_{GENDER_CODE}_{CONTRACT_TYPE} |
+ * | S1-6_08 (region) | region* | S21.G00.11.004 | S1-6_09_{NUTS_2_CODE} |
  * | S1-6_18 (category) | pcsEse | S21.G00.40.004 | S1-6_19_{PCS_ESE_CODE} |
+ * | S1-6_21 (gender × working time) | gender, workingTime | S21.G00.30.005, S21.G00.40.014 | S1-6_22_{GENDER_CODE}_{WORKING_TIME} |
+ * | S1-6_24 (departure reason) | departureReason | S21.G00.62.002 | S1-6_25_{REASON} |
+ * | S1-6_29 (hires by gender) | gender | S21.G00.30.005 | S1-6_30_{GENDER_CODE} |
+ * | S1-9_01 (age group) | ageGroup | S21.G00.30.006 | S1-9_02_{AGE_GROUP} |
+ * | S1-16_02 (pay gap by category) | pcsEse | S21.G00.40.004 | S1-16_03_{PCS_ESE_CODE} |
+ * | S1-15_01 (family leave) | gender | S21.G00.30.005 | S1-15_02_{GENDER_CODE} |
+ * | S1-8_01 (coverage by country) | country | S21.G00.11.015 | S1-8_02_{COUNTRY_CODE} |
+ * | S1-8_03 (collective agreement) | idcc | S21.G00.40.017 | S1-8_04_{IDCC} |
+ * | S1-12_03 (disabilities by gender) | gender | S21.G00.30.005 | S1-12_04_{GENDER_CODE} |
+ * 
+ * * Region = Country for foreign establishments (ESRS fallback implementation)
+ * 
+ * **Annual Reporting**
+ * Several monthly DSNs can be passed at once: they are merged into one timeline
+ * per employee and every metric is computed over the fiscal year
+ * (see extractReportingPeriodFromSet / mergeEmployeeTimelines).
+ * 
+ * **Reporting Period**
+ * `options.period` replaces the period derived from the DSN months (e.g. a fiscal
+ * year from April to March); every strategy receives that period.
  * 
- * * Region = Country (ESRS fallback implementation)
+ * **Headcount vs Full-Time Equivalent**
+ * `options.measure` switches every headcount figure (global and tables) between
+ * number of people and full-time equivalents; S1-6_14 is filled accordingly.
+ * Leavers and turnover always count people.
+ * 
+ * **Averaging Method**
+ * `options.averaging` selects how every average headcount is computed (two-point,
+ * monthly or daily-weighted, see computeAverageHeadcount); S1-6_15 states it.
+ * 
+ * **Turnover**
+ * `options.turnover` sets the denominator, annualization and exclusion of ended
+ * fixed-term contracts of S1-6_12 and S1-6_26 (see computeTurnoverRate).
  * 
  * **Strategy Reuse Principle**
  * Existing strategies are reused with filtered employee subsets:
  * - computeHeadcountAtPeriodEnd() → called with country-specific employees
  * - computeAverageHeadcount() → applied to gender-filtered employee subsets to provide disaggregated metrics per the 'Employees by gender' table requirements
+ * Rows whose dimension values are all unknown are skipped.
+ * 
+ * **Pivot Tables**
+ * Tables are pivots over their dimensions: every combination of values gets a
+ * cell, the last dimension giving the columns, with row, column and grand totals
+ * keyed with "total" (e.g. K_718_F_total, K_718_total_permanent, K_718_total_total).
  * 
- * @param declaration - Parsed DSN declaration
+ * @param declarations - Parsed DSN declaration, or monthly declarations of a fiscal year
  * @param questionTree - Hierarchical question structure from questions.csv
- * @returns Record<answerId, Answer> with dynamic keys for table rows
+ * @param options - Measure used by every headcount question (people or FTE) and reporting period
+ * @returns Record<answerId, Answer> with dynamic keys for table rows, each answer
+ *   carrying its questionId and dimension values
  */
 
 export function computeAnswers(
-  declaration: Declaration,
-  questionTree: QuestionNode[]
+  declarations: Declaration | Declaration[],
+  questionTree: QuestionNode[],
+  options: ComputeOptions = { measure: "headcount" }
 ): Record<string, Answer> {
-  const period = extractReportingPeriod(declaration);
-  const employees = normalizeEmployees(declaration);
+  const declarationSet = Array.isArray(declarations) ? declarations : [declarations];
+  const period = extractReportingPeriodFromSet(declarationSet, options.period);
+  const employees = declarationSet.length === 1
+    ? normalizeEmployees(declarationSet[0], period.end)
+    : mergeEmployeeTimelines(declarationSet, period.end);
   const answers: Record<string, Answer> = {};
 
   // Process the entire question tree recursively
-  processQuestionNodes(declaration, period, employees, questionTree, answers);
+  processQuestionNodes(employees, questionTree, answers, { period, options });
+
+  // Derived answers, once their dependencies are computed
+  evaluateFormulas(questionTree, answers);
   
   return answers;
 }
@@ -64,325 +119,100 @@ export function computeAnswers(
  * Maintains context about parent tables for proper scoping.
  */
 function processQuestionNodes(
-  declaration: Declaration,
-  period: { start: Date; end: Date },
-  employees: NormalizedEmployee[],
+  employees: Employee[],
   nodes: QuestionNode[],
-  answers: Record<string, Answer>
+  answers: Record<string, Answer>,
+  context: StrategyContext
 ): void {
   for (const node of nodes) {
-    if (node.content === "Table") {
-      // Handle table containers with dynamic row expansion
-      processTableQuestion(node, declaration, period, employees, answers);
-    } else {
-      // Handle regular questions (global scope only)
-      processRegularQuestion(node, employees, period, answers);
+    const dimensions = node.content === "Table" ? getTableDimensions(node) : null;
+
+    if (dimensions) {
+      // Handle table containers with dynamic row expansion (children are computed per group)
+      processTableQuestion(node, dimensions, employees, answers, context);
+      continue;
     }
+
+    // Handle regular questions (global scope only)
+    processRegularQuestion(node, employees, answers, context);
     
     // Recurse into children (maintain hierarchy)
-    processQuestionNodes(declaration, period, employees, node.children, answers);
+    processQuestionNodes(employees, node.children, answers, context);
   }
 }
 
 /**
  * Processes regular (non-table) questions that operate on global employee data.
- * These include global headcount, leavers, and turnover metrics.
+ * Section headers and questions without strategy get no answer; formula
+ * questions are left to evaluateFormulas.
  */
 function processRegularQuestion(
   node: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
+  employees: Employee[],
+  answers: Record<string, Answer>,
+  context: StrategyContext
 ): void {
-  // Skip section headers (shouldn't reach here due to CSV filtering)
-  if (node.id === "S1-6_01" || node.id === "S1-6_13") {
-    return;
-  }
+  if (node.content === "Table" || node.content === "" || node.formula) return;
 
-  // Manual questions (methodology context)
-  if (["S1-6_14", "S1-6_15", "S1-6_16", "S1-6_17"].includes(node.id)) {
-    answers[node.id] = {
-      value: null,
-      source: "manual",
-      explanation: ""
-    };
-    return;
-  }
+  const strategy = getMetricStrategy(node);
+  if (!strategy) return;
 
-  // Global metrics (only computed for root-level questions)
-  switch (node.id) {
-    case "S1-6_02": // Global headcount (end)
-      answers[node.id] = {
-        ...computeHeadcountAtPeriodEnd(employees, period.end),
-        source: "computed"
-      };
-      break;
-      
-    case "S1-6_03": // Global average headcount
-      answers[node.id] = {
-        ...computeAverageHeadcount(employees, period),
-        source: "computed"
-      };
-      break;
-      
-    case "S1-6_11": // Global leavers
-      answers[node.id] = {
-        ...computeLeavers(employees, period),
-        source: "computed"
-      };
-      break;
-      
-    case "S1-6_12": // Global turnover rate
-      answers[node.id] = {
-        ...computeTurnoverRate(employees, period),
-        source: "computed"
-      };
-      break;
-  }
+  answers[node.id] = {
+    questionId: node.id,
+    dimensions: {},
+    ...strategy.compute(employees, context),
+    source: strategy.manual ? "manual" : "computed"
+  };
 }
 
 /**
- * Processes table container questions with dynamic row expansion.
- * Generates multiple answers per table row using existing strategies.
+ * Processes table container questions as pivot tables (see pivotEmployees).
+ * Generates one answer per child question and cell, totals included, carrying
+ * the cell values by dimension name and keyed `${childId}_${value}`
+ * (`${childId}_${value1}_${value2}` for cross tables, `${childId}_F_total` for
+ * a row total).
  */
 function processTableQuestion(
   tableNode: QuestionNode,
-  declaration: Declaration,
-  period: { start: Date; end: Date },
-  employees: NormalizedEmployee[],
-  answers: Record<string, Answer>
-): void {
-  switch (tableNode.id) {
-    case "S1-6_04": // Employees by country
-      processCountryTable(tableNode, employees, period, answers);
-      break;
-      
-    case "S1-6_07": // Employees by gender
-      //processGenderTable(tableNode, employees, period, answers);
-      processContractGenderTable(tableNode, employees, period, answers);
-      break;
-      
-    case "S1-6_08": // Employees by region (country fallback)
-      processRegionTable(tableNode, employees, period, answers);
-      break;
-      
-    case "S1-6_18": // Employees by professional category
-      processCategoryTable(tableNode, employees, period, answers);
-      break;
-  }
-}
-
-/**
- * 🌍 COUNTRY TABLE PROCESSING
- * Groups employees by country and computes metrics per country.
- * Uses DSN field S21.G00.30.029 for country codes.
- */
-function processCountryTable(
-  tableNode: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
-): void {
-  const countryGroups = groupByAttribute(employees, "country");
-  
-  for (const [country, countryEmployees] of Object.entries(countryGroups)) {
-    if (country === "unknown") continue; // Skip invalid entries
-    
-    for (const child of tableNode.children) {
-      const answerId = `${child.id}_${country}`;
-      
-      if (child.id === "S1-6_05") { // Headcount at period end
-        const result = computeHeadcountAtPeriodEnd(countryEmployees, period.end);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Employees in country ${country}: ${result.value}`
-        };
-      } 
-      else if (child.id === "S1-6_06") { // Average headcount
-        const result = computeAverageHeadcount(countryEmployees, period);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Average employees in country ${country}: ${result.value}`
-        };
-      }
-    }
-  }
-}
-
-/**
- * 👥 GENDER TABLE PROCESSING  
- * Groups employees by gender and computes metrics per gender.
- * Uses DSN field S21.G00.30.005 for gender codes.
- */
-function processGenderTable(
-  tableNode: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
-): void {
-  const genderGroups = groupByAttribute(employees, "gender");
-  
-  for (const [gender, genderEmployees] of Object.entries(genderGroups)) {
-    if (gender === "unknown") continue;
-    
-    for (const child of tableNode.children) {
-      const answerId = `${child.id}_${gender}`;
-      
-      if (child.id === "K_718") { // Headcount at period end
-        const result = computeHeadcountAtPeriodEnd(genderEmployees, period.end);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Employees with gender code ${gender}: ${result.value}`
-        };
-      }
-      else if (child.id === "K_719") { // Average headcount
-        const result = computeAverageHeadcount(genderEmployees, period);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Average employees with gender code ${gender}: ${result.value}`
-        };
-      }
-    }
-  }
-}
-
-
-
-
-/**
- * CONTRACT-GENDER TABLE PROCESSING  
- * Groups employees by COMBINED gender + PCS-ESE (contract proxy).
- */
-function processContractGenderTable(
-  tableNode: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
+  dimensions: TableDimension[],
+  employees: Employee[],
+  answers: Record<string, Answer>,
+  context: StrategyContext
 ): void {
-  // Create composite key: gender_pcsEse
-  const contractGenderGroups: Record<string, NormalizedEmployee[]> = {};
-  
-  for (const emp of employees) {
-    const gender = emp.gender || "unknown";
-    const pcsEse = emp.pcsEse || "unknown";
-    const compositeKey = `${gender}_${pcsEse}`;
-    
-    if (!contractGenderGroups[compositeKey]) {
-      contractGenderGroups[compositeKey] = [];
-    }
-    contractGenderGroups[compositeKey].push(emp);
-  }
-
-  // Generate answers for each composite group
-  for (const [compositeKey, groupEmployees] of Object.entries(contractGenderGroups)) {
-    if (compositeKey === "unknown_unknown") continue;
-    
-    for (const child of tableNode.children) {
-      const answerId = `${child.id}_${compositeKey}`;
-      
-      if (child.id === "K_718") { // End-of-period headcount
-        const result = computeHeadcountAtPeriodEnd(groupEmployees, period.end);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Employees with gender/contract ${compositeKey}: ${result.value}`
-        };
-      }
-      else if (child.id === "K_719") { // Average headcount
-        const result = computeAverageHeadcount(groupEmployees, period);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Average employees with gender/contract ${compositeKey}: ${result.value}`
-        };
-      }
-    }
-  }
-}
-
-
-
-
+  for (const { values, employees: groupEmployees } of pivotEmployees(employees, dimensions)) {
+    if (values.every(value => value === "unknown")) continue; // Skip invalid entries
+
+    const key = values.join("_");
+    const cellDimensions: AnswerDimensions = Object.fromEntries(
+      dimensions.map((dimension, index) => [dimension.name, values[index]])
+    );
+
+    // Totals are described by their non-aggregated dimensions only
+    const described = dimensions
+      .map((dimension, index) => ({ dimension, value: values[index] }))
+      .filter(({ value }) => value !== TOTAL_DIMENSION_VALUE);
+    const group = {
+      phrase: described.map(({ dimension, value }) => dimension.phrase(value)).join(" ") || "in total",
+      title: described.map(({ dimension, value }) => dimension.title(value)).join(", ") || "Total",
+    };
 
-/**
- * REGION TABLE PROCESSING (ESRS COMPLIANT FALLBACK)
- * Since DSN doesn't provide regional data, we use country-as-region per ESRS S1-6-3.
- * Each country is treated as a separate region for compliance purposes.
- */
-function processRegionTable(
-  tableNode: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
-): void {
-  // Use country groups as region groups (ESRS fallback)
-  const regionGroups = groupByAttribute(employees, "country");
-  
-  for (const [region, regionEmployees] of Object.entries(regionGroups)) {
-    if (region === "unknown") continue;
-    
     for (const child of tableNode.children) {
-      const answerId = `${child.id}_${region}`;
-      
-      if (child.id === "S1-6_09") { // Headcount at period end
-        const result = computeHeadcountAtPeriodEnd(regionEmployees, period.end);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Employees in region ${region} (country-level fallback per ESRS S1-6-3): ${result.value}`
-        };
-      }
-      else if (child.id === "S1-6_10") { // Average headcount
-        const result = computeAverageHeadcount(regionEmployees, period);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Average employees in region ${region} (country-level fallback): ${result.value}`
-        };
-      }
+      const strategy = getMetricStrategy(child);
+      if (!strategy || strategy.manual) continue;
+
+      const result = strategy.compute(groupEmployees, context);
+      const explanation = strategy.explainGroup
+        ? strategy.explainGroup(result, group, groupEmployees, context)
+        : `${group.title}: ${result.explanation}`;
+      if (explanation === null) continue;
+
+      answers[`${child.id}_${key}`] = {
+        questionId: child.id,
+        dimensions: cellDimensions,
+        ...result,
+        source: "computed",
+        explanation
+      };
     }
   }
 }
-
-/**
- * CATEGORY TABLE PROCESSING
- * Groups employees by professional category (PCS-ESE code).
- * Uses DSN field S21.G00.40.004 for category codes.
- */
-function processCategoryTable(
-  tableNode: QuestionNode,
-  employees: NormalizedEmployee[],
-  period: { start: Date; end: Date },
-  answers: Record<string, Answer>
-): void {
-  const categoryGroups = groupByAttribute(employees, "pcsEse");
-  
-  for (const [category, categoryEmployees] of Object.entries(categoryGroups)) {
-    if (category === "unknown") continue;
-    
-    for (const child of tableNode.children) {
-      const answerId = `${child.id}_${category}`;
-      
-      if (child.id === "S1-6_19") { // Headcount at period end
-        const result = computeHeadcountAtPeriodEnd(categoryEmployees, period.end);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Employees in professional category ${category}: ${result.value}`
-        };
-      }
-      else if (child.id === "S1-6_20") { // Average headcount
-        const result = computeAverageHeadcount(categoryEmployees, period);
-        answers[answerId] = {
-          ...result,
-          source: "computed",
-          explanation: `Average employees in professional category ${category}: ${result.value}`
-        };
-      }
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { Declaration } from "~/utils/dsn-parser/dsn-reader.server";
+import { Absence, ContractPeriod, Employee } from "./types.server";
+import { normalizeEmployees } from "./normalize.server";
+import { getEmploymentSpan } from "./employment.server";
+import { extractReportingPeriod } from "./extract-period.server";
+
+/**
+ * Merges monthly DSN declarations into one employment timeline per employee.
+ *
+ * Each monthly DSN only describes the employees paid that month. To report over
+ * a fiscal year, the monthly snapshots are combined by employee id (NIR,
+ * S21.G00.30.001, or technical identifier, see normalizeEmployees), processing months in chronological order:
+ *
+ * - `contracts`: contracts are matched across months by establishment, number
+ *   (S21.G00.40.009) and start date; the most recent declaration of each contract is kept
+ * - `contractStart`, `contractEnd`: recomputed from the merged contracts, so
+ *   `contractStart` is the earliest start seen across months
+ * - `grossPay`, `paidHours`, `totalRemuneration`: summed over the months
+ * - `absences`: a stoppage declared again in later months (same type and start)
+ *   is kept once, with its most recent dates (e.g. the actual return date)
+ * - `country`, `gender`, `pcsEse` and the other primary contract fields: taken
+ *   from the most recent month the employee appears in
+ * - A contract that disappears from a later **uploaded** month without any
+ *   declared end date is considered to have ended at the end of the last month
+ *   it was declared in. When this closes the person's last open contract, they
+ *   have left with departure reason "other" (no S21.G00.62 block).
+ *   Absence from a month that was not uploaded is not treated as a departure.
+ *
+ * Employees without an identifier cannot be matched across months and are kept
+ * as separate records.
+ *
+ * @param declarations - Monthly declarations, in any order
+ * @param referenceDate - Date ages are computed at (end of the fiscal year)
+ * @returns Employee[] with one record per person over the whole set
+ */
+export function mergeEmployeeTimelines(declarations: Declaration[], referenceDate: Date): Employee[] {
+  const months = declarations
+    .map(declaration => ({ declaration, period: extractReportingPeriod(declaration) }))
+    .sort((a, b) => a.period.start.getTime() - b.period.start.getTime());
+
+  const timelines = new Map<string, { employee: Employee; contracts: Map<string, ContractTimeline> }>();
+  const anonymous: Employee[] = [];
+
+  for (const { declaration, period } of months) {
+    for (const employee of normalizeEmployees(declaration, referenceDate)) {
+      if (!employee.id) {
+        anonymous.push(employee);
+        continue;
+      }
+
+      const previous = timelines.get(employee.id);
+      const grossPay = sum(previous?.employee.grossPay ?? null, employee.grossPay);
+      const paidHours = sum(previous?.employee.paidHours ?? null, employee.paidHours);
+      const totalRemuneration = sum(previous?.employee.totalRemuneration ?? null, employee.totalRemuneration);
+      const absences = mergeAbsences(previous?.employee.absences ?? [], employee.absences);
+
+      const contracts = previous?.contracts ?? new Map<string, ContractTimeline>();
+      for (const contract of employee.contracts) {
+        contracts.set(`${contract.establishment ?? ""}|${contract.number ?? ""}|${contract.start?.getTime() ?? "unknown"}`, { contract, lastSeen: period.end });
+      }
+
+      timelines.set(employee.id, {
+        employee: { ...employee, grossPay, paidHours, totalRemuneration, absences },
+        contracts,
+      });
+    }
+  }
+
+  // Close contracts no longer declared in a later uploaded month
+  const lastMonthEnd = months[months.length - 1]?.period.end;
+  const merged: Employee[] = [];
+
+  for (const { employee, contracts: timeline } of timelines.values()) {
+    let closedWithoutDeclaration = false;
+    const contracts = Array.from(timeline.values(), ({ contract, lastSeen }) => {
+      if (contract.end || !lastMonthEnd || lastSeen >= lastMonthEnd) return contract;
+      closedWithoutDeclaration = true;
+      return { ...contract, end: lastSeen };
+    });
+
+    const employment = getEmploymentSpan(contracts);
+    const leftWithoutDeclaration = closedWithoutDeclaration && !!employment.end && !employee.contractEnd;
+
+    merged.push({
+      ...employee,
+      contracts,
+      contractStart: employment.start,
+      contractEnd: employment.end,
+      departureCode: employment.end && !leftWithoutDeclaration ? employee.departureCode : null,
+      departureReason: employment.end ? (leftWithoutDeclaration ? "other" : employee.departureReason) : null,
+    });
+  }
+
+  return [...merged, ...anonymous];
+}
+
+interface ContractTimeline {
+  contract: ContractPeriod;
+  lastSeen: Date; // End of the last uploaded month the contract was declared in
+}
+
+function mergeAbsences(previous: Absence[], current: Absence[]): Absence[] {
+  const byKey = new Map<string, Absence>();
+  for (const absence of [...previous, ...current]) {
+    byKey.set(`${absence.type}|${absence.start?.getTime() ?? "unknown"}`, absence);
+  }
+  return Array.from(byKey.values());
+}
+
+function sum(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a + b;
+}
+
@@ -1,38 +1,178 @@
-import { Declaration } from "~/utils/dsn-parser/dsn-reader.server";
-import { Employee } from "./types.server";
+import { Contrat, Declaration, Etablissement, Individu } from "~/utils/dsn-parser/dsn-reader.server";
+import { Absence, AbsenceType, AgeGroup, ContractPeriod, ContractType, DepartureReason, Employee, WorkingTime } from "./types.server";
+import { getEmploymentSpan } from "./employment.server";
+import { getEstablishmentRegion } from "./regions.server";
 
 
 /**
  * Converts raw DSN declaration into normalized Employee records.
  * Handles missing data gracefully and parses DSN-specific formats.
+ *
+ * **Identity resolution**
+ * A person may be declared under several establishments of a multi-site DSN
+ * (e.g. an intra-group transfer during the month). Individuals are matched by
+ * NIR (S21.G00.30.001), or by technical identifier (S21.G00.30.020) when the
+ * NIR is missing, and produce a single Employee whose contracts, payments and
+ * absences are combined. Individuals with neither identifier are kept apart.
+ *
+ * **Contract timeline**
+ * Every contract declared for a person (S21.G00.40, closed by S21.G00.62) is kept
+ * in `contracts`. Employment status is read from the whole timeline (see
+ * isEmployedOn), so concurrent contracts, a contract replaced mid-month or a
+ * transfer to another establishment do not depend on the order of the blocks:
+ * - contractStart: earliest contract start
+ * - contractEnd: latest contract end, null while any contract is open
+ * - departureCode / departureReason: from the contract that ended last,
+ *   only once the person holds no open contract
+ *
+ * **Primary contract**
+ * Category and breakdown fields (country, pcsEse, idcc, disability, contract
+ * type, working time, quotités) come from a single primary contract:
+ * 1. contracts in force on the reference date are preferred
+ * 2. among them, the largest contractual working time (S21.G00.40.013)
+ * 3. then the earliest start (the longest-standing contract)
+ * 4. then the first declared
+ * When no contract is in force on the reference date, the contract that ends
+ * last (open contracts first) is used.
+ *
+ * @param declaration - Parsed DSN declaration
+ * @param referenceDate - Date ages are computed and the primary contract is chosen at (end of the reporting period)
  */
-export function normalizeEmployees(declaration: Declaration): Employee[] {
-  const employees: Employee[] = [];
-  
+export function normalizeEmployees(declaration: Declaration, referenceDate: Date): Employee[] {
+  return resolveIndividuals(declaration).map(person => buildEmployee(person, referenceDate));
+}
+
+/**
+ * One declaration of an individual, with the establishment it was found under.
+ */
+interface IndividuRecord {
+  individu: Individu;
+  etablissement: Etablissement;
+}
+
+/**
+ * Groups the individuals of all establishments by person: same NIR, or same
+ * technical identifier when the NIR is missing on either side.
+ */
+function resolveIndividuals(declaration: Declaration): IndividuRecord[][] {
+  const persons: { nir: string | undefined; records: IndividuRecord[] }[] = [];
+  const byNir = new Map<string, number>();
+  const byTechnicalId = new Map<string, number>();
+
   // Handle multiple establishments
-  const etablissements = declaration.entreprise?.etablissements || [];
-  
-  for (const etablissement of etablissements) {
-    const establishmentCountryCode = etablissement.countryCode || "unknown";
-    const individus = etablissement.individus || [];
-    
-    for (const individu of individus) {
-      // Get the latest contract (DSN may contain historical contracts)
-      const contract = individu.contrats[individu.contrats.length - 1];
-      
-      employees.push({
-        id: individu.identifiant || "",
-        country: establishmentCountryCode, // S21.G00.11.015 (employment country)
-        birthCountry: individu.pays || "", // S21.G00.30.029 (birth country)
-        gender: parseGender(individu.sexe),
-        contractStart: contract?.dateDebut ? parseDsnDate(contract.dateDebut) : null,
-        contractEnd: contract?.dateFin ? parseDsnDate(contract.dateFin) : null,
-        pcsEse: contract?.pcsEse || null,
-      });
+  for (const etablissement of declaration.entreprise?.etablissements || []) {
+    for (const individu of etablissement.individus || []) {
+      const nir = individu.identifiant || undefined;
+      const technicalId = individu.identifiantTechnique || undefined;
+
+      let index = nir !== undefined ? byNir.get(nir) : undefined;
+      if (index === undefined && technicalId !== undefined) {
+        const candidate = byTechnicalId.get(technicalId);
+        const candidateNir = candidate !== undefined ? persons[candidate].nir : undefined;
+        if (candidate !== undefined && (!nir || !candidateNir)) index = candidate;
+      }
+
+      if (index === undefined) {
+        index = persons.push({ nir, records: [] }) - 1;
+      }
+
+      const person = persons[index];
+      person.records.push({ individu, etablissement });
+      person.nir = person.nir ?? nir;
+      if (nir !== undefined) byNir.set(nir, index);
+      if (technicalId !== undefined && !byTechnicalId.has(technicalId)) byTechnicalId.set(technicalId, index);
     }
   }
-  
-  return employees;
+
+  return persons.map(person => person.records);
+}
+
+function buildEmployee(records: IndividuRecord[], referenceDate: Date): Employee {
+  // Contracts, payments and absences of every establishment the person is declared in
+  const individu: Individu = {
+    ...records[0].individu,
+    identifiant: records.find(record => record.individu.identifiant)?.individu.identifiant,
+    identifiantTechnique: records.find(record => record.individu.identifiantTechnique)?.individu.identifiantTechnique,
+    contrats: records.flatMap(record => record.individu.contrats),
+    versements: records.flatMap(record => record.individu.versements),
+    arrets: records.flatMap(record => record.individu.arrets),
+    suspensions: records.flatMap(record => record.individu.suspensions),
+  };
+  const contractEtablissements = records.flatMap(record => record.individu.contrats.map(() => record.etablissement));
+
+  const contracts = individu.contrats.map((contrat, index) => parseContractPeriod(contrat, contractEtablissements[index]));
+  const primaryIndex = selectPrimaryContract(contracts, referenceDate);
+  const contract = individu.contrats[primaryIndex];
+  const etablissement = contractEtablissements[primaryIndex] ?? records[0].etablissement;
+  const employment = getEmploymentSpan(contracts);
+  const lastEnded = employment.end
+    ? contracts.find(period => period.end?.getTime() === employment.end!.getTime())
+    : undefined;
+  const birthDate = individu.dateNaissance ? parseDsnDate(individu.dateNaissance) : null;
+  const age = birthDate ? computeAge(birthDate, referenceDate) : null;
+
+  return {
+    id: individu.identifiant || individu.identifiantTechnique || "",
+    country: etablissement.countryCode || "unknown", // S21.G00.11.015 (employment country)
+    region: getEstablishmentRegion(etablissement), // S21.G00.11.004 postal code → NUTS-2
+    birthCountry: individu.pays || "", // S21.G00.30.029 (birth country)
+    gender: parseGender(individu.sexe),
+    birthDate,
+    age,
+    ageGroup: age !== null ? parseAgeGroup(age) : null,
+    contracts,
+    contractStart: employment.start,
+    contractEnd: employment.end,
+    pcsEse: contract?.pcsEse || null,
+    idcc: contract?.idcc || null,
+    disability: parseBoeth(contract?.statutBoeth),
+    contractNature: contract?.nature || null,
+    contractType: parseContractType(contract?.nature, contract?.dispositifPolitique),
+    workingTime: parseWorkingTime(contract?.modaliteTemps),
+    quotite: parseDecimal(contract?.quotite),
+    quotiteCategorie: parseDecimal(contract?.quotiteCategorie),
+    uniteMesure: contract?.uniteMesure || null,
+    departureCode: lastEnded?.departureCode ?? null,
+    departureReason: employment.end ? parseDepartureReason(lastEnded?.departureCode ?? undefined) : null,
+    ...parsePay(individu),
+    absences: parseAbsences(individu),
+  };
+}
+
+function parseContractPeriod(contrat: Contrat, etablissement: Etablissement): ContractPeriod {
+  return {
+    number: contrat.numero || null,
+    establishment: etablissement.nic || null,
+    start: contrat.dateDebut ? parseDsnDate(contrat.dateDebut) : null,
+    end: contrat.dateFin ? parseDsnDate(contrat.dateFin) : null,
+    quotite: parseDecimal(contrat.quotite),
+    quotiteCategorie: parseDecimal(contrat.quotiteCategorie),
+    uniteMesure: contrat.uniteMesure || null,
+    departureCode: contrat.motifRupture || null,
+  };
+}
+
+/**
+ * Index of the primary contract (see normalizeEmployees), -1 without contracts.
+ */
+function selectPrimaryContract(contracts: ContractPeriod[], referenceDate: Date): number {
+  const inForce = (period: ContractPeriod) =>
+    period.start !== null && period.start <= referenceDate &&
+    (period.end === null || period.end >= referenceDate);
+  const endTime = (period: ContractPeriod) => period.end?.getTime() ?? Infinity;
+  const startTime = (period: ContractPeriod) => period.start?.getTime() ?? Infinity;
+
+  const candidates = contracts.map((period, index) => ({ period, index }));
+  const active = candidates.filter(({ period }) => inForce(period));
+
+  const ranked = active.length > 0
+    ? active.sort((a, b) =>
+        (b.period.quotite ?? 0) - (a.period.quotite ?? 0) ||
+        startTime(a.period) - startTime(b.period) ||
+        a.index - b.index)
+    : candidates.sort((a, b) => endTime(b.period) - endTime(a.period) || a.index - b.index);
+
+  return ranked[0]?.index ?? -1;
 }
 
 /**
@@ -56,6 +196,255 @@ function parseGender(sexeCode: string | undefined): "M" | "F" | null {
   return null;
 }
 
+// S21.G00.40.007 - Nature du contrat
+// CDD d'usage, senior or à objet défini have no nature of their own: they are
+// declared as 02 and told apart by other rubriques (motif de recours, …).
+const PERMANENT_NATURES = [
+  "01", // Contrat de travail à durée indéterminée de droit privé
+  "08", // Contrat de travail à durée indéterminée intérimaire
+  "09", // Contrat de travail à durée indéterminée de droit public
+  "50", // Nomination dans la fonction publique
+  "82", // Contrat de travail à durée indéterminée de chantier ou d'opération
+  "91", // Contrat d'engagement maritime à durée indéterminée
+];
+const TEMPORARY_NATURES = [
+  "02", // Contrat de travail à durée déterminée de droit privé
+  "03", // Contrat de mission (contrat de travail temporaire)
+  "10", // Contrat de travail à durée déterminée de droit public
+  "92", // Contrat d'engagement maritime à durée déterminée
+];
+const NON_GUARANTEED_HOURS_NATURES = [
+  "07", // CDI intermittent: hours not guaranteed over the year
+];
+
+// S21.G00.40.008 - Dispositif de politique publique
+const WORK_STUDY_SCHEMES = [
+  "61", // Contrat de professionnalisation
+  "64", // Contrat d'apprentissage entreprises artisanales ou de moins de 11 salariés
+  "65", // Contrat d'apprentissage entreprises non inscrites au répertoire des métiers
+];
+
+/**
+ * Maps DSN contract nature to the ESRS contract type:
+ * - CDI of any kind (01, 08, 09, 82, 91) and public service appointments (50) → "permanent"
+ * - CDD (02, 10, 92) and intérim missions (03) → "temporary"
+ * - CDI intermittent (07) → "non-guaranteed-hours"
+ * - apprenticeship / professionalisation contracts not declared as CDI → "temporary"
+ * - anything else (détachements, mandats, stages, …) → null
+ */
+function parseContractType(
+  nature: string | undefined,
+  dispositifPolitique: string | undefined
+): ContractType | null {
+  if (nature && PERMANENT_NATURES.includes(nature)) return "permanent";
+  if (nature && NON_GUARANTEED_HOURS_NATURES.includes(nature)) return "non-guaranteed-hours";
+  if (nature && TEMPORARY_NATURES.includes(nature)) return "temporary";
+  if (dispositifPolitique && WORK_STUDY_SCHEMES.includes(dispositifPolitique)) return "temporary";
+  return null;
+}
+
+/**
+ * Maps DSN working-time arrangement (S21.G00.40.014):
+ * - "10" (temps plein) → "full-time"
+ * - "20" (temps partiel), "21" (temps partiel thérapeutique) → "part-time"
+ * - anything else (forfait, non concerné, …) → null
+ */
+function parseWorkingTime(modaliteTemps: string | undefined): WorkingTime | null {
+  if (modaliteTemps === "10") return "full-time";
+  if (modaliteTemps === "20" || modaliteTemps === "21") return "part-time";
+  return null;
+}
+
+// S21.G00.40.072 - Statut BOETH
+const BOETH_NON_BENEFICIAIRE = "99";
+
+/**
+ * An employee is counted as a person with disabilities when a BOETH status
+ * is declared on their contract (any code except "99", non bénéficiaire).
+ */
+function parseBoeth(statutBoeth: string | undefined): boolean {
+  return !!statutBoeth && statutBoeth !== BOETH_NON_BENEFICIAIRE;
+}
+
+// S21.G00.62.002 - Motif de la rupture du contrat de travail
+// Rupture conventionnelle (043) is agreed by both parties: it is counted as
+// voluntary because it cannot happen without the employee's consent. Leavers
+// by reason (S1-6_24) list the DSN codes of each group, so it stays visible.
+const DEPARTURE_REASONS: Record<string, DepartureReason> = {
+  // Initiative of the employee
+  "035": "voluntary", // Fin de période d'essai à l'initiative du salarié
+  "037": "voluntary", // Rupture anticipée d'un CDD / contrat de mission à l'initiative du salarié
+  "043": "voluntary", // Rupture conventionnelle
+  "058": "voluntary", // Prise d'acte de la rupture
+  "059": "voluntary", // Démission
+  "084": "voluntary", // Rupture d'un commun accord du CDD / apprentissage / mission
+
+  // Initiative of the employer
+  "011": "involuntary", // Licenciement suite à liquidation ou redressement judiciaire
+  "012": "involuntary", // Licenciement suite à fermeture définitive de l'établissement
+  "014": "involuntary", // Licenciement pour motif économique
+  "015": "involuntary", // Licenciement pour fin de chantier
+  "020": "involuntary", // Licenciement pour autre motif
+  "025": "involuntary", // Autre fin de contrat pour motif économique
+  "026": "involuntary", // Rupture pour motif économique (contrat de sécurisation professionnelle)
+  "033": "involuntary", // Rupture anticipée d'un CDD / contrat de mission pour inaptitude
+  "034": "involuntary", // Fin de période d'essai à l'initiative de l'employeur
+  "036": "involuntary", // Rupture anticipée d'un CDD / contrat de mission à l'initiative de l'employeur
+  "082": "involuntary", // Résiliation judiciaire du contrat de travail
+  "086": "involuntary", // Licenciement convention CATS
+  "087": "involuntary", // Licenciement pour faute grave
+  "088": "involuntary", // Licenciement pour faute lourde
+  "089": "involuntary", // Licenciement pour force majeure
+  "091": "involuntary", // Licenciement pour inaptitude d'origine non professionnelle
+  "092": "involuntary", // Licenciement pour inaptitude d'origine professionnelle
+  "093": "involuntary", // Licenciement suite à décision d'une autorité administrative
+  "094": "involuntary", // Rupture anticipée pour arrêt de l'activité de l'entreprise
+
+  // Retirement
+  "038": "retirement", // Mise à la retraite par l'employeur
+  "039": "retirement", // Départ à la retraite à l'initiative du salarié
+
+  // Term reached
+  "031": "end-of-contract", // Fin de CDD ou fin d'accueil occasionnel
+  "032": "end-of-contract", // Fin de mission d'intérim
+  "081": "end-of-contract", // Fin de contrat d'apprentissage
+
+  // Not a departure
+  "099": "transfer", // Fin de relation avec l'employeur sans rupture de contrat (e.g. transfert du contrat)
+};
+
+/**
+ * Maps a DSN termination reason code to a departure reason group.
+ * Deaths (066), force majeure (083), unknown or missing codes → "other".
+ */
+function parseDepartureReason(motifRupture: string | undefined): DepartureReason {
+  return (motifRupture && DEPARTURE_REASONS[motifRupture]) || "other";
+}
+
+/**
+ * Age in completed years on the reference date.
+ */
+function computeAge(birthDate: Date, referenceDate: Date): number {
+  let age = referenceDate.getFullYear() - birthDate.getFullYear();
+  const birthdayNotReached =
+    referenceDate.getMonth() < birthDate.getMonth() ||
+    (referenceDate.getMonth() === birthDate.getMonth() && referenceDate.getDate() < birthDate.getDate());
+
+  if (birthdayNotReached) age--;
+  return age;
+}
+
+/**
+ * ESRS S1-9 age bands: < 30, 30–50, > 50.
+ */
+function parseAgeGroup(age: number): AgeGroup {
+  if (age < 30) return "under-30";
+  if (age <= 50) return "30-50";
+  return "over-50";
+}
+
+// S21.G00.51.011 - Type de rémunération
+const REMUNERATION_BRUTE = "001";           // Rémunération brute non plafonnée
+const SALAIRE_BRUT_ASSURANCE_CHOMAGE = "002"; // Carries the hours when 001 does not
+
+/**
+ * Gross pay and paid hours of the month, from the S21.G00.51 blocks of all payments:
+ * - grossPay: sum of amounts (S21.G00.51.013) of type 001
+ * - paidHours: sum of hours (S21.G00.51.012) of type 001, or of type 002 when
+ *   type 001 blocks carry no hours
+ * - totalRemuneration: grossPay + bonuses (S21.G00.52.002) + other income
+ *   (S21.G00.54.002), null when none of them is declared
+ * grossPay and paidHours are null when the individual has no type 001 remuneration.
+ */
+function parsePay(
+  individu: Individu
+): { grossPay: number | null; paidHours: number | null; totalRemuneration: number | null } {
+  const remunerations = individu.versements.flatMap(versement => versement.remunerations);
+  const primes = individu.versements.flatMap(versement => versement.primes);
+  const revenuAutres = individu.versements.flatMap(versement => versement.revenuAutres);
+  const gross = remunerations.filter(remuneration => remuneration.type === REMUNERATION_BRUTE);
+
+  const sum = (values: (string | undefined)[]) =>
+    values.reduce((total, value) => total + (parseDecimal(value) ?? 0), 0);
+
+  const extras = sum([...primes, ...revenuAutres].map(extra => extra.montant));
+  const hasExtras = primes.length + revenuAutres.length > 0;
+  if (gross.length === 0) {
+    return { grossPay: null, paidHours: null, totalRemuneration: hasExtras ? extras : null };
+  }
+
+  const grossPay = sum(gross.map(remuneration => remuneration.montant));
+  let paidHours = sum(gross.map(remuneration => remuneration.nombreHeures));
+  if (paidHours === 0) {
+    paidHours = sum(remunerations
+      .filter(remuneration => remuneration.type === SALAIRE_BRUT_ASSURANCE_CHOMAGE)
+      .map(remuneration => remuneration.nombreHeures));
+  }
+
+  return { grossPay, paidHours: paidHours > 0 ? paidHours : null, totalRemuneration: grossPay + extras };
+}
+
+// S21.G00.60.001 - Motif de l'arrêt
+const ARRET_TYPES: Record<string, AbsenceType> = {
+  "01": "illness",
+  "02": "maternity",
+  "03": "paternity",
+  "04": "commuting-accident",
+  "05": "occupational-disease",
+  "06": "work-accident",
+};
+
+// S21.G00.65.001 - Motif de suspension
+const SUSPENSION_CONGE_PARENTAL = "507"; // Congé parental d'éducation
+
+/**
+ * Work stoppages (S21.G00.60) and parental leave (S21.G00.65, motif 507).
+ * A stoppage starts the day after the last day worked and ends the day before
+ * the return to work, or on the expected end date while still ongoing.
+ * Other suspensions (unpaid leave, strike, …) are not kept.
+ */
+function parseAbsences(individu: Individu): Absence[] {
+  const arrets = individu.arrets.map(arret => {
+    const lastDayWorked = arret.dernierJourTravaille ? parseDsnDate(arret.dernierJourTravaille) : null;
+    const returnDate = arret.dateReprise ? parseDsnDate(arret.dateReprise) : null;
+
+    return {
+      type: (arret.motif && ARRET_TYPES[arret.motif]) || "other",
+      code: arret.motif || null,
+      start: lastDayWorked ? addDays(lastDayWorked, 1) : null,
+      end: returnDate
+        ? addDays(returnDate, -1)
+        : arret.dateFinPrevisionnelle ? parseDsnDate(arret.dateFinPrevisionnelle) : null,
+      accidentDate: arret.dateAccident ? parseDsnDate(arret.dateAccident) : null,
+    };
+  });
+
+  const parentalLeaves = individu.suspensions
+    .filter(suspension => suspension.motif === SUSPENSION_CONGE_PARENTAL)
+    .map(suspension => ({
+      type: "parental" as const,
+      code: suspension.motif || null,
+      start: suspension.dateDebut ? parseDsnDate(suspension.dateDebut) : null,
+      end: suspension.dateFin ? parseDsnDate(suspension.dateFin) : null,
+      accidentDate: null,
+    }));
+
+  return [...arrets, ...parentalLeaves];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Parses DSN decimal values ("151.67"). Returns null when absent or invalid.
+ */
+function parseDecimal(decimal: string | undefined): number | null {
+  if (!decimal) return null;
+  const value = parseFloat(decimal);
+  return Number.isNaN(value) ? null : value;
+}
+
 /**
  * Parses DSN date format (YYYYMMDD) into JavaScript Date.
  * Returns null for invalid dates.
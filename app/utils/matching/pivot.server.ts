@@ -0,0 +1,72 @@
+import { Employee, TOTAL_DIMENSION_VALUE } from "./types.server";
+import { TableDimension } from "./registry.server";
+import { groupByAttribute } from "./strategies/group-by-attribute.server";
+
+/**
+ * Pivot of employees over the dimensions of a table question.
+ *
+ * The last dimension gives the columns and the other ones the rows. Cells cover
+ * the cartesian product of the values found for each dimension, so empty
+ * combinations (e.g. no woman on a temporary contract) are computed as well,
+ * followed by the totals, whose value is "total" for the aggregated dimensions:
+ * - one row total per row (column "total")
+ * - one column total per column (every row dimension "total")
+ * - the grand total (every dimension "total")
+ * A one-dimension table only gets the grand total.
+ *
+ * Totals are computed on the employees of the aggregated cells rather than by
+ * adding cell values, so averages and rates stay correct.
+ *
+ * Employees excluded by a dimension filter, or without any known value for the
+ * table dimensions, are left out of every cell.
+ */
+
+export interface PivotCell {
+  values: string[]; // One value per dimension, "total" when aggregated
+  employees: Employee[];
+}
+
+export function pivotEmployees(employees: Employee[], dimensions: TableDimension[]): PivotCell[] {
+  const included = employees.filter(employee =>
+    dimensions.every(dimension => !dimension.filter || dimension.filter(employee))
+  );
+
+  // Value of every employee for each dimension, missing values being "unknown"
+  const employeeValues = new Map<Employee, string[]>(included.map(employee => [employee, []]));
+  for (const dimension of dimensions) {
+    for (const [value, groupEmployees] of Object.entries(groupByAttribute(included, dimension.attribute))) {
+      groupEmployees.forEach(employee => employeeValues.get(employee)!.push(value));
+    }
+  }
+
+  const entries = Array.from(employeeValues.entries())
+    .filter(([, values]) => values.some(value => value !== "unknown"));
+  const dimensionValues = dimensions.map((_, index) =>
+    Array.from(new Set(entries.map(([, values]) => values[index])))
+  );
+
+  const columns = [...dimensionValues[dimensionValues.length - 1], TOTAL_DIMENSION_VALUE];
+  const rowDimensionValues = dimensionValues.slice(0, -1);
+  const rows = rowDimensionValues.length === 0
+    ? [[]]
+    : [...cartesianProduct(rowDimensionValues), rowDimensionValues.map(() => TOTAL_DIMENSION_VALUE)];
+
+  return rows.flatMap(row => columns.map(column => {
+    const values = [...row, column];
+    return {
+      values,
+      employees: entries
+        .filter(([, employeeValue]) =>
+          values.every((value, index) => value === TOTAL_DIMENSION_VALUE || employeeValue[index] === value)
+        )
+        .map(([employee]) => employee),
+    };
+  }));
+}
+
+function cartesianProduct(valueSets: string[][]): string[][] {
+  return valueSets.reduce<string[][]>(
+    (combinations, values) => combinations.flatMap(combination => values.map(value => [...combination, value])),
+    [[]]
+  );
+}
@@ -0,0 +1,37 @@
+import { DEPARTEMENT_NUTS_2, NUTS_2_REGIONS } from "config/nuts-regions";
+import { Etablissement } from "~/utils/dsn-parser/dsn-reader.server";
+
+/**
+ * Region of an establishment for the S1-6_08 breakdown:
+ * - French establishments (S21.G00.11.015 "FR" or empty): NUTS-2 region of the
+ *   postal code S21.G00.11.004 (e.g. "75008" → "FR10")
+ * - otherwise, or when the postal code is missing or outside NUTS: the country
+ *   code, per ESRS S1-6-3 ("If regional breakdown is not feasible, disclose by country")
+ */
+export function getEstablishmentRegion(etablissement: Etablissement): string {
+  const country = etablissement.countryCode || "unknown";
+  const isFrench = !etablissement.countryCode || etablissement.countryCode === "FR";
+  const nuts = isFrench ? getNuts2Region(etablissement.codePostal) : null;
+
+  return nuts ?? country;
+}
+
+/**
+ * NUTS-2 region of a French postal code, null when it cannot be mapped.
+ * The département is given by the first two digits, three overseas ("97x").
+ */
+export function getNuts2Region(postalCode: string | undefined): string | null {
+  const code = postalCode?.replace(/\s/g, "");
+  if (!code || !/^\d{5}$/.test(code)) return null;
+
+  const departement = code.startsWith("97") ? code.slice(0, 3) : code.slice(0, 2);
+  return DEPARTEMENT_NUTS_2[departement] ?? null;
+}
+
+/**
+ * Name of a NUTS-2 region, e.g. "Île-de-France" for "FR10"; undefined for a
+ * country fallback.
+ */
+export function getNuts2RegionName(region: string): string | undefined {
+  return NUTS_2_REGIONS[region];
+}
@@ -0,0 +1,282 @@
+import { QuestionNode } from "~/utils/questions/types";
+import { STRATEGY_BINDINGS } from "config/strategy-bindings";
+import { ComputeOptions, DimensionName, Employee } from "./types.server";
+
+import { computeHeadcountAtPeriodEnd } from "./strategies/headcount-at-period-end.server";
+import { computeAverageHeadcount, formatAveragingMethod } from "./strategies/average-headcount.server";
+import { computeLeavers, isLeaver } from "./strategies/leavers.server";
+import { computeNewHires } from "./strategies/new-hires.server";
+import { computeTurnoverRate } from "./strategies/turnover-rate.server";
+import { computeVoluntaryTurnoverRate } from "./strategies/voluntary-turnover-rate.server";
+import { computeGenderPayGap } from "./strategies/gender-pay-gap.server";
+import { computeRemunerationRatio } from "./strategies/remuneration-ratio.server";
+import { computeDaysLost, computeOccupationalDiseases, computeWorkAccidents } from "./strategies/work-accidents.server";
+import { computeFamilyLeave } from "./strategies/family-leave.server";
+import { computeCollectiveBargainingCoverage, isCoveredByCollectiveAgreement } from "./strategies/collective-bargaining.server";
+import { computeDisabilityRate, computeEmployeesWithDisabilities } from "./strategies/disabilities.server";
+import { GroupAttribute } from "./strategies/group-by-attribute.server";
+import { getNuts2RegionName } from "./regions.server";
+
+/**
+ * Strategy registry: binds questions to the strategies computing their answers.
+ *
+ * A question is bound to a named strategy by the "strategy" column of
+ * questions.csv, or by the default bindings of config/strategy-bindings.ts when
+ * that column is empty. A binding is written `name` or `name:param1+param2`:
+ * - leaf questions use a metric strategy (e.g. `headcount-at-period-end`)
+ * - table questions use `group-by:<dimension>` (e.g. `group-by:country`) or
+ *   `group-by:<dimension>+<dimension>` for a cross table; each child question is
+ *   then computed for every group with its own metric strategy
+ *
+ * Questions without binding (section headers, global tables) get no answer.
+ */
+
+export interface StrategyBinding {
+  name: string;
+  params: string[];
+}
+
+export interface StrategyContext {
+  period: { start: Date; end: Date };
+  options: ComputeOptions;
+}
+
+export interface StrategyResult {
+  value: string | number | null;
+  explanation: string;
+}
+
+/**
+ * Labels of one table row, built from the values of its dimensions.
+ */
+export interface GroupLabel {
+  phrase: string; // e.g. "in country FR", "with gender M on permanent contracts"
+  title: string;  // e.g. "Country FR", "Gender M, permanent contracts"
+}
+
+export interface MetricStrategy {
+  compute(employees: Employee[], context: StrategyContext): StrategyResult;
+  manual?: boolean; // Answer left to the user (source "manual")
+  /**
+   * Explanation of the answer for one table row; null skips the row.
+   * Defaults to `${group.title}: ${result.explanation}`.
+   */
+  explainGroup?(result: StrategyResult, group: GroupLabel, employees: Employee[], context: StrategyContext): string | null;
+}
+
+/**
+ * Breakdown dimension of a table, grouping employees on one Employee field.
+ */
+export interface Dimension {
+  attribute: GroupAttribute;
+  filter?: (employee: Employee) => boolean; // Employees outside the breakdown
+  phrase(value: string): string;
+  title(value: string): string;
+}
+
+/**
+ * Dimension of a table binding, with its name in DIMENSIONS.
+ */
+export interface TableDimension extends Dimension {
+  name: DimensionName;
+}
+
+export const METRIC_STRATEGIES: Record<string, MetricStrategy> = {
+  "headcount-at-period-end": {
+    compute: (employees, { period, options }) => computeHeadcountAtPeriodEnd(employees, period.end, options.measure),
+    explainGroup: (result, group, _employees, { options }) =>
+      `${options.measure === "fte" ? "Full-time equivalents" : "Employees"} ${group.phrase}: ${result.value}`,
+  },
+  "average-headcount": {
+    compute: (employees, { period, options }) =>
+      computeAverageHeadcount(employees, period, options.measure, options.averaging),
+    explainGroup: (result, group, _employees, { options }) =>
+      `Average ${options.measure === "fte" ? "full-time equivalents" : "employees"} ${group.phrase}: ${result.value} (${formatAveragingMethod(options.averaging)})`,
+  },
+  "new-hires": {
+    compute: (employees, { period }) => computeNewHires(employees, period),
+    explainGroup: (result, group) => `New hires ${group.phrase}: ${result.explanation}`,
+  },
+  "leavers": {
+    compute: (employees, { period }) => computeLeavers(employees, period),
+    explainGroup: (result, group, employees, { period }) => {
+      if (result.value === 0) return null; // No departure within the period
+
+      const leaverCodes = employees
+        .filter(emp => isLeaver(emp, period))
+        .map(emp => emp.departureCode ?? "none");
+      const codes = Array.from(new Set(leaverCodes)).sort().join(", ");
+      return `Leavers ${group.phrase} (DSN codes S21.G00.62.002: ${codes}): ${result.value}`;
+    },
+  },
+  "turnover-rate": {
+    compute: (employees, { period, options }) =>
+      computeTurnoverRate(employees, period, options.turnover, options.averaging),
+  },
+  "voluntary-turnover-rate": {
+    compute: (employees, { period, options }) =>
+      computeVoluntaryTurnoverRate(employees, period, options.turnover, options.averaging),
+  },
+  "gender-pay-gap": {
+    compute: employees => computeGenderPayGap(employees),
+  },
+  "remuneration-ratio": {
+    compute: (employees, { period }) => computeRemunerationRatio(employees, period),
+  },
+  "work-accidents": {
+    compute: (employees, { period }) => computeWorkAccidents(employees, period),
+  },
+  "occupational-diseases": {
+    compute: (employees, { period }) => computeOccupationalDiseases(employees, period),
+  },
+  "days-lost": {
+    compute: (employees, { period }) => computeDaysLost(employees, period),
+  },
+  "family-leave": {
+    compute: (employees, { period }) => computeFamilyLeave(employees, period),
+  },
+  "collective-bargaining-coverage": {
+    compute: (employees, { period }) => computeCollectiveBargainingCoverage(employees, period.end),
+  },
+  "employees-with-disabilities": {
+    compute: (employees, { period }) => computeEmployeesWithDisabilities(employees, period.end),
+  },
+  "disability-rate": {
+    compute: (employees, { period }) => computeDisabilityRate(employees, period.end),
+  },
+
+  // Methodology answers, stating the options chosen on upload
+  "employee-measure": { // Values match the S1-6_14 enum
+    compute: (_employees, { options }) => ({
+      value: options.measure === "fte" ? "Full-time equivalent" : "Head-count",
+      explanation: options.measure === "fte"
+        ? "Employee figures are full-time equivalents: contractual working time (S21.G00.40.013) / reference working time (S21.G00.40.012), summed over the contracts in force and capped at 1 per person"
+        : "Employee figures count people with an active contract",
+    }),
+  },
+  "averaging-method": { // Value matches the S1-6_15 enum
+    compute: (_employees, { options }) => ({
+      value: "Other",
+      explanation: `Employee figures are given at the end of the period and averaged over the period (${formatAveragingMethod(options.averaging)})`,
+    }),
+  },
+  "manual": {
+    compute: () => ({ value: null, explanation: "" }),
+    manual: true,
+  },
+};
+
+export const DIMENSIONS: Record<DimensionName, Dimension> = {
+  country: { // S21.G00.11.015
+    attribute: "country",
+    phrase: value => `in country ${value}`,
+    title: value => `Country ${value}`,
+  },
+  region: { // NUTS-2 of S21.G00.11.004, country-level fallback for foreign establishments
+    attribute: "region",
+    phrase: value => {
+      const name = getNuts2RegionName(value);
+      return name ? `in region ${value} (${name})` : `in region ${value} (country-level fallback per ESRS S1-6-3)`;
+    },
+    title: value => {
+      const name = getNuts2RegionName(value);
+      return name ? `Region ${value} ${name}` : `Region ${value}`;
+    },
+  },
+  gender: { // S21.G00.30.005
+    attribute: "gender",
+    phrase: value => `with gender ${value}`,
+    title: value => `Gender ${value}`,
+  },
+  contractType: { // S21.G00.40.007
+    attribute: "contractType",
+    phrase: value => `on ${value} contracts`,
+    title: value => `${value} contracts`,
+  },
+  workingTime: { // S21.G00.40.014
+    attribute: "workingTime",
+    phrase: value => `working ${value}`,
+    title: value => `Working ${value}`,
+  },
+  pcsEse: { // S21.G00.40.004
+    attribute: "pcsEse",
+    phrase: value => `in professional category ${value}`,
+    title: value => `Professional category ${value}`,
+  },
+  ageGroup: { // S21.G00.30.006
+    attribute: "ageGroup",
+    phrase: value => `in age group ${value}`,
+    title: value => `Age group ${value}`,
+  },
+  departureReason: { // S21.G00.62.002, transfers (099) are not departures
+    attribute: "departureReason",
+    filter: employee => employee.departureReason !== "transfer",
+    phrase: value => `with departure reason ${value}`,
+    title: value => `Departure reason ${value}`,
+  },
+  idcc: { // S21.G00.40.017, employees covered by a collective agreement only
+    attribute: "idcc",
+    filter: isCoveredByCollectiveAgreement,
+    phrase: value => `under collective agreement IDCC ${value}`,
+    title: value => `IDCC ${value}`,
+  },
+};
+
+/**
+ * Binding of a question: the "strategy" CSV column, else the default binding.
+ * Returns null for questions without binding.
+ */
+export function resolveBinding(node: QuestionNode): StrategyBinding | null {
+  const binding = node.strategy || STRATEGY_BINDINGS[node.id];
+  if (!binding) return null;
+
+  const [name, params = ""] = binding.split(":");
+  return {
+    name: name.trim(),
+    params: params.split("+").map(param => param.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Metric strategy of a leaf question, null when the question is not bound.
+ * @throws Error when the bound strategy does not exist
+ */
+export function getMetricStrategy(node: QuestionNode): MetricStrategy | null {
+  const binding = resolveBinding(node);
+  if (!binding) return null;
+
+  // Own keys only: inherited names such as "toString" are not strategies
+  if (!Object.prototype.hasOwnProperty.call(METRIC_STRATEGIES, binding.name)) {
+    throw new Error(
+      `Question ${node.id}: unknown strategy "${binding.name}". ` +
+      `Available strategies: ${Object.keys(METRIC_STRATEGIES).join(", ")}.`
+    );
+  }
+  return METRIC_STRATEGIES[binding.name];
+}
+
+/**
+ * Breakdown dimensions of a table question bound to `group-by`, null otherwise.
+ * @throws Error when the binding names an unknown strategy or dimension
+ */
+export function getTableDimensions(node: QuestionNode): TableDimension[] | null {
+  const binding = resolveBinding(node);
+  if (!binding) return null;
+
+  if (binding.name !== "group-by") {
+    throw new Error(`Table ${node.id}: unknown strategy "${binding.name}", tables use "group-by:<dimension>".`);
+  }
+  if (binding.params.length === 0) {
+    throw new Error(`Table ${node.id}: "group-by" needs at least one dimension.`);
+  }
+
+  return binding.params.map(param => {
+    if (!Object.prototype.hasOwnProperty.call(DIMENSIONS, param)) {
+      throw new Error(
+        `Table ${node.id}: unknown dimension "${param}". ` +
+        `Available dimensions: ${Object.keys(DIMENSIONS).join(", ")}.`
+      );
+    }
+    return { ...DIMENSIONS[param as DimensionName], name: param as DimensionName };
+  });
+}
@@ -1,23 +1,38 @@
-import { Employee } from "../types.server";
+import { AveragingMethod, Employee, HeadcountMeasure } from "../types.server";
+import { isEmployedOn } from "../employment.server";
+import { getMonthsInPeriod } from "../extract-period.server";
+import { countEmployees } from "./full-time-equivalent.server";
 
 
 /**
- * Computes the average headcount using the standard CSRD methodology:
- * (Number of employees at start of period + Number of employees at end of period) / 2
+ * Computes the average headcount over the reporting period, with the averaging
+ * method chosen by the user:
+ * - "two-point" (default, standard CSRD methodology):
+ *   (Number of employees at start of period + Number of employees at end of period) / 2
+ * - "monthly": mean of the headcounts at the end of each month of the period
+ * - "daily-weighted": mean of the headcounts of every day of the period, so
+ *   each person weighs by the number of days they were employed
  * 
 * 
  *  **Employee Eligibility Criteria**
- * An employee is counted as "active" on a given date if:
- * - They have a valid contract start date
- * - Their contract started on or before the reference date
- * - Their contract has not ended before the reference date 
- *   (null/undefined contractEnd = still active)
+ * An employee is counted as "active" on a given date if one of their contracts
+ * (see isEmployedOn):
+ * - Has a valid start date, on or before the reference date
+ * - Has not ended before the reference date (no end date = still active)
+ * A person holding several contracts is counted once.
  * 
- *  **Calculation Logic**
+ *  **Calculation Logic** (two-point)
  * 1. Count employees active on period.start (first day of reporting period)
  * 2. Count employees active on period.end (last day of reporting period)  
  * 3. Return (startCount + endCount) / 2 rounded to 1 decimal place
  * 
+ * "monthly" counts on the last day of each month (the period end for a month
+ * cut short), "daily-weighted" on every day; both are rounded to 1 decimal place.
+ * The method is stated in the explanation.
+ * 
+ * In "fte" mode, counts are sums of full-time equivalents
+ * (see computeFte) rather than numbers of people.
+ * 
  *  **Usage Context**
  * This function is designed to work with filtered employee subsets:
  * - Global: all employees in the declaration
@@ -26,63 +41,82 @@ import { Employee } from "../types.server";
  * - Category: employees grouped by PCS-ESE professional category (S1-6_18 table)
  * 
  *  **Assumptions**
- * - Reporting periods are typically single months (e.g., "202511" = November 2025)
+ * - Reporting periods are single months (e.g., "202511" = November 2025), or a
+ *   fiscal year when several monthly DSNs are uploaded together
  * - Contract dates are properly normalized to Date objects
- * - Employees without contractStart are excluded from calculations
+ * - Contracts without start date are excluded from calculations
  * 
  * @param employees - Normalized employee records with contract dates
  * @param period - Reporting period with start/end Date boundaries
+ * @param measure - "headcount" (default) or "fte"
+ * @param method - "two-point" (default), "monthly" or "daily-weighted"
  * @returns Average headcount value and explanatory message
  */
 export function computeAverageHeadcount(
   employees: Employee[],
-  period: { start: Date; end: Date }
+  period: { start: Date; end: Date },
+  measure: HeadcountMeasure = "headcount",
+  method: AveragingMethod = "two-point"
 ): { value: number; explanation: string } {
+  const countOn = (date: Date) => countEmployees(employees.filter(emp => isEmployedOn(emp, date)), measure, date);
+  const label = `${measure === "fte" ? "Average full-time equivalents" : "Average employees"} (${formatAveragingMethod(method)})`;
+
+  if (method === "monthly") {
+    const monthEndCounts = getMonthsInPeriod(period.start, period.end).map(({ year, month }) => {
+      const monthEnd = new Date(year, month + 1, 0);
+      return countOn(monthEnd < period.end ? monthEnd : period.end);
+    });
+    const total = monthEndCounts.reduce((sum, count) => sum + count, 0);
+    const average = parseFloat((total / monthEndCounts.length).toFixed(1));
+
+    return {
+      value: average,
+      explanation: `${label}: (${monthEndCounts.join(" + ")}) / ${monthEndCounts.length} = ${average}`
+    };
+  }
+
+  if (method === "daily-weighted") {
+    let total = 0;
+    let days = 0;
+    for (let day = new Date(period.start); day <= period.end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+      total += countOn(day);
+      days++;
+    }
+    const average = parseFloat((total / days).toFixed(1));
+    const roundedTotal = parseFloat(total.toFixed(2));
+
+    return {
+      value: average,
+      explanation: `${label}: ${roundedTotal} ${measure === "fte" ? "FTE" : "employee"}-days / ${days} days = ${average}`
+    };
+  }
   
   // Count employees active at period start
-  const startCount = employees.filter(emp => 
-    emp.contractStart && emp.contractStart <= period.start &&
-    (!emp.contractEnd || emp.contractEnd >= period.start)
-  ).length;
+  const startCount = countOn(period.start);
   
   // Count employees active at period end
-  const endCount = employees.filter(emp => 
-    emp.contractStart && emp.contractStart <= period.end &&
-    (!emp.contractEnd || emp.contractEnd >= period.end)
-  ).length;
+  const endCount = countOn(period.end);
   
   // Simple average: (start + end) / 2
-  const average = (startCount + endCount) / 2;
+  const average = parseFloat(((startCount + endCount) / 2).toFixed(1)); // Keep 1 decimal place
   
   return {
-    value: parseFloat(average.toFixed(1)), // Keep 1 decimal place
-    explanation: `Average employees: (${startCount} + ${endCount}) / 2 = ${average}`
+    value: average,
+    explanation: `${label}: (${startCount} + ${endCount}) / 2 = ${average}`
   };
 }
 
-
-function getMonthsInPeriod(start: Date, end: Date): { year: number; month: number }[] {
-  const months = [];
-  const current = new Date(start.getFullYear(), start.getMonth(), 1);
-  const endTruncated = new Date(end.getFullYear(), end.getMonth(), 1);
-  
-  while (current <= endTruncated) {
-    months.push({ year: current.getFullYear(), month: current.getMonth() });
-    current.setMonth(current.getMonth() + 1);
+/**
+ * Short description of an averaging method, used in answer explanations.
+ */
+export function formatAveragingMethod(method: AveragingMethod = "two-point"): string {
+  switch (method) {
+    case "monthly":
+      return "average of month-end figures";
+    case "daily-weighted":
+      return "daily-weighted average";
+    default:
+      return "two-point average of period start and end";
   }
-  
-  return months;
 }
 
-function formatPeriodLabel(period: { start: Date; end: Date }): string {
-  const start = period.start;
-  const end = period.end;
-  
-  // Single month
-  if (start.getFullYear() === end.getFullYear() && start.getMonth() === end.getMonth()) {
-    return `${start.toLocaleString('en-US', { month: 'short', year: 'numeric' })}`;
-  }
-  
-  // Multi-month
-  return `${start.toLocaleString('en-US', { month: 'short', year: 'numeric' })} - ${end.toLocaleString('en-US', { month: 'short', year: 'numeric' })}`;
-}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { Employee } from "../types.server";
+import { computeHeadcountAtPeriodEnd } from "./headcount-at-period-end.server";
+
+// S21.G00.40.017 - Code convention collective applicable
+const NO_COLLECTIVE_AGREEMENT = "9999"; // Sans convention collective
+
+/**
+ * Tells whether an employee's contract falls under a collective agreement.
+ * "9999" (no convention) and missing codes are not covered.
+ */
+export function isCoveredByCollectiveAgreement(employee: Employee): boolean {
+  return employee.idcc !== null && employee.idcc !== NO_COLLECTIVE_AGREEMENT;
+}
+
+/**
+ * Computes the percentage of employees covered by a collective agreement.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-8_02: Percentage of employees covered by collective agreements [by country]
+ * 
+ * Coverage is measured on employees with an active contract at period end:
+ * an employee is covered when their contract carries an IDCC code
+ * (S21.G00.40.017) other than "9999".
+ * 
+ * Formula: (Covered employees at period end / Employees at period end) * 100
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param periodEndDate - End date of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeCollectiveBargainingCoverage(
+  employees: Employee[],
+  periodEndDate: Date
+): { value: number; explanation: string } {
+  const total = computeHeadcountAtPeriodEnd(employees, periodEndDate);
+  const covered = computeHeadcountAtPeriodEnd(employees.filter(isCoveredByCollectiveAgreement), periodEndDate);
+
+  // Avoid division by zero
+  if (total.value === 0) {
+    return {
+      value: 0,
+      explanation: "Collective bargaining coverage: 0% (no employees at period end)"
+    };
+  }
+
+  const rate = Math.round((covered.value / total.value) * 100);
+
+  return {
+    value: rate,
+    explanation: `Collective bargaining coverage: ${rate}% (${covered.value} of ${total.value} employees with an IDCC other than ${NO_COLLECTIVE_AGREEMENT})`
+  };
+}
@@ -0,0 +1,75 @@
+import { Employee } from "../types.server";
+import { computeHeadcountAtPeriodEnd } from "./headcount-at-period-end.server";
+
+// Counts below this threshold could identify individuals once published
+const SMALL_CELL_THRESHOLD = 5;
+
+/**
+ * Counts employees with disabilities at period end.
+ * 
+ *  Addresses the following ESG/CSRD questions:
+ *   - S1-12_01: Number of employees with disabilities
+ *   - S1-12_04: Number of employees with disabilities [by gender]
+ * 
+ * An employee with disabilities has a BOETH status declared on their contract
+ * (S21.G00.40.072, see normalizeEmployees) and an active contract at period end.
+ * Counts between 1 and 4 are flagged as small cells in the explanation.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param periodEndDate - End date of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeEmployeesWithDisabilities(
+  employees: Employee[],
+  periodEndDate: Date
+): { value: number; explanation: string } {
+  const result = computeHeadcountAtPeriodEnd(employees.filter(emp => emp.disability), periodEndDate);
+  const count = result.value;
+
+  return {
+    value: count,
+    explanation: `${count} employee${count !== 1 ? 's' : ''} with a BOETH status (S21.G00.40.072) at period end${smallCellFlag(count)}`
+  };
+}
+
+/**
+ * Computes the percentage of employees with disabilities at period end.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-12_02: Percentage of employees with disabilities
+ * 
+ * Formula: (Employees with disabilities at period end / Employees at period end) * 100,
+ * rounded to 1 decimal place.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param periodEndDate - End date of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeDisabilityRate(
+  employees: Employee[],
+  periodEndDate: Date
+): { value: number; explanation: string } {
+  const withDisabilities = computeHeadcountAtPeriodEnd(employees.filter(emp => emp.disability), periodEndDate);
+  const total = computeHeadcountAtPeriodEnd(employees, periodEndDate);
+
+  // Avoid division by zero
+  if (total.value === 0) {
+    return {
+      value: 0,
+      explanation: "Employees with disabilities: 0% (no employees at period end)"
+    };
+  }
+
+  const rate = parseFloat(((withDisabilities.value / total.value) * 100).toFixed(1));
+
+  return {
+    value: rate,
+    explanation: `Employees with disabilities: ${rate}% (${withDisabilities.value} / ${total.value} employees at period end)${smallCellFlag(withDisabilities.value)}`
+  };
+}
+
+function smallCellFlag(count: number): string {
+  return count > 0 && count < SMALL_CELL_THRESHOLD
+    ? ` [small cell: fewer than ${SMALL_CELL_THRESHOLD} people, individuals may be identifiable]`
+    : "";
+}
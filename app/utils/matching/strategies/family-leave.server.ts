@@ -0,0 +1,38 @@
+import { AbsenceType, Employee } from "../types.server";
+import { formatDate } from "../extract-period.server";
+
+const FAMILY_LEAVE: AbsenceType[] = ["maternity", "paternity", "parental"];
+
+/**
+ * Counts employees who took family-related leave during the reporting period.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-15_02: Number of employees that took family-related leave [by gender]
+ * 
+ * Family-related leave is maternity (S21.G00.60 reason 02), paternity and
+ * childcare (reason 03) or parental leave (S21.G00.65 reason 507). An employee
+ * counts once if any of these leaves overlaps [periodStart, periodEnd].
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeFamilyLeave(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number; explanation: string } {
+  const onLeave = employees.filter(emp =>
+    emp.absences.some(absence =>
+      FAMILY_LEAVE.includes(absence.type) &&
+      absence.start !== null && absence.start <= period.end &&
+      (!absence.end || absence.end >= period.start)
+    )
+  );
+
+  const count = onLeave.length;
+
+  return {
+    value: count,
+    explanation: `${count} employee${count !== 1 ? 's' : ''} took maternity, paternity or parental leave between ${formatDate(period.start)} and ${formatDate(period.end)}`
+  };
+}
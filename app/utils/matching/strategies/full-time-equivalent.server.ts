@@ -0,0 +1,60 @@
+import { ContractPeriod, Employee, HeadcountMeasure } from "../types.server";
+import { isContractActiveOn } from "../employment.server";
+
+// S21.G00.40.011 - Unité de mesure de la quotité de travail
+const UNITE_NON_CONCERNE = "99"; // Salarié non concerné (e.g. cadre dirigeant)
+
+/**
+ * Computes the full-time equivalent of one employee on a date.
+ *
+ * For each contract, the contractual working time (quotité, S21.G00.40.013)
+ * is compared with the company reference working time for the employee's
+ * category (quotité de référence, S21.G00.40.012). Both are expressed in the
+ * same unit (S21.G00.40.011: hours, days, …), so the unit cancels out:
+ *
+ *   FTE = Σ quotité / quotité de référence over the contracts active on the
+ *         date, capped at 1
+ *
+ * A person holding two part-time contracts is thus counted for both.
+ * Without any contract active on the date, the primary contract is used.
+ *
+ * Fallbacks, per contract:
+ * - unit "99" (not subject to working time) → 1
+ * - quotités missing or reference ≤ 0 → 1 (counted as full-time, since
+ *   part-time cannot be quantified without them)
+ *
+ * @param employee - Normalized employee record
+ * @param date - Date the contracts are taken at
+ * @returns FTE between 0 and 1
+ */
+export function computeFte(employee: Employee, date: Date): number {
+  const active = employee.contracts.filter(contract => isContractActiveOn(contract, date));
+  if (active.length === 0) return computeContractFte(employee);
+
+  return Math.min(active.reduce((sum, contract) => sum + computeContractFte(contract), 0), 1);
+}
+
+function computeContractFte(
+  { uniteMesure, quotite, quotiteCategorie }: Pick<ContractPeriod, "uniteMesure" | "quotite" | "quotiteCategorie">
+): number {
+  if (uniteMesure === UNITE_NON_CONCERNE) return 1;
+  if (quotite === null || quotiteCategorie === null || quotiteCategorie <= 0) return 1;
+
+  return Math.min(quotite / quotiteCategorie, 1);
+}
+
+/**
+ * Counts employees according to the selected measure: one per person for
+ * "headcount", the sum of their FTE for "fte" (rounded to 1 decimal place).
+ *
+ * @param employees - Employees to count (already filtered on the reference date)
+ * @param measure - "headcount" or "fte"
+ * @param date - Reference date the employees were filtered on
+ * @returns Count of people or of full-time equivalents
+ */
+export function countEmployees(employees: Employee[], measure: HeadcountMeasure, date: Date): number {
+  if (measure === "headcount") return employees.length;
+
+  const total = employees.reduce((sum, employee) => sum + computeFte(employee, date), 0);
+  return parseFloat(total.toFixed(1));
+}
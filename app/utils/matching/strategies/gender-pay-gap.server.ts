@@ -0,0 +1,56 @@
+import { Employee } from "../types.server";
+
+/**
+ * Computes the unadjusted gender pay gap as a percentage of men's pay.
+ * 
+ *  Addresses the following ESG/CSRD questions:
+ *   - S1-16_01: Gender pay gap (%)
+ *   - S1-16_03: Gender pay gap (%) [by category]
+ * 
+ * Hourly pay of each employee = gross pay / paid hours over the reporting
+ * period (S21.G00.51.013 / S21.G00.51.012, remuneration type 001, see
+ * normalizeEmployees). Employees without pay or hours are left out.
+ * 
+ * Formula: (average hourly pay of men - average hourly pay of women)
+ *          / average hourly pay of men * 100
+ * 
+ * A positive gap means men are paid more on average. The gap cannot be
+ * computed (value null) when either gender has no employee with hourly pay.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @returns { value: number | null, explanation: string }
+ */
+export function computeGenderPayGap(
+  employees: Employee[]
+): { value: number | null; explanation: string } {
+  const men = averageHourlyPay(employees.filter(emp => emp.gender === "M"));
+  const women = averageHourlyPay(employees.filter(emp => emp.gender === "F"));
+
+  if (men.count === 0 || women.count === 0) {
+    return {
+      value: null,
+      explanation: `Gender pay gap not computable: ${men.count} men and ${women.count} women with gross pay and paid hours`
+    };
+  }
+
+  const gap = parseFloat((((men.average - women.average) / men.average) * 100).toFixed(1));
+
+  return {
+    value: gap,
+    explanation:
+      `Gender pay gap: (${men.average.toFixed(2)} - ${women.average.toFixed(2)}) / ${men.average.toFixed(2)} = ${gap}% ` +
+      `(men: ${men.count} employee${men.count !== 1 ? 's' : ''}, average ${men.average.toFixed(2)}/h; ` +
+      `women: ${women.count} employee${women.count !== 1 ? 's' : ''}, average ${women.average.toFixed(2)}/h)`
+  };
+}
+
+function averageHourlyPay(employees: Employee[]): { count: number; average: number } {
+  const hourlyPays = employees
+    .filter(emp => emp.grossPay !== null && emp.paidHours !== null && emp.paidHours > 0)
+    .map(emp => (emp.grossPay as number) / (emp.paidHours as number));
+
+  if (hourlyPays.length === 0) return { count: 0, average: 0 };
+
+  const total = hourlyPays.reduce((sum, pay) => sum + pay, 0);
+  return { count: hourlyPays.length, average: total / hourlyPays.length };
+}
@@ -9,9 +9,14 @@ import { Employee } from "../types.server";
  * 
  *  Addresses the following ESG/CSRD table questions:
  *   - S1-6_04: Employees by country (uses attribute = "country")
- *   - S1-6_07: Employees by gender and contract type (uses attribute = "gender")
- *   - S1-6_08: Employees by region (uses attribute = "country" + mapping to regions)
+ *   - S1-6_07: Employees by gender and contract type (uses attribute = "gender", then "contractType")
+ *   - S1-6_08: Employees by region (uses attribute = "region", NUTS-2 from the establishment postal code)
  *   - S1-6_18: Employees by professional category (uses attribute = "pcsEse")
+ *   - S1-6_21: Employees by gender and working time (uses attribute = "gender", then "workingTime")
+ *   - S1-6_24: Leavers by departure reason (uses attribute = "departureReason")
+ *   - S1-9_01: Employees by age group (uses attribute = "ageGroup")
+ *   - S1-8_01 / S1-8_03: Collective bargaining coverage (uses attribute = "country", then "idcc")
+ *  (default bindings; any table bound to `group-by:<dimension>` uses it, see registry.server.ts)
  * 
  *  How it works:
  *   1. Takes normalized Employee[] records from DSN
@@ -28,18 +33,22 @@ import { Employee } from "../types.server";
  * 
  *  Important notes:
  *   - Missing/empty attribute values are grouped under "unknown"
- *   - Country codes follow ISO 3166-1 alpha-2 (from DSN S21.G00.30.029)
+ *   - Country codes follow ISO 3166-1 alpha-2 (from DSN S21.G00.11.015, establishment country)
  *   - Gender uses DSN codes: "1"=M, "2"=F (normalized in Employee type)
  *   - PCS-ESE codes come from DSN S21.G00.40.004 (job classification)
+ *   - Contract type / working time are derived from S21.G00.40.007 / .014
  * 
  * @param employees - Normalized employee records from DSN
- * @param attribute - The Employee field to group by ("country" | "gender" | "pcsEse")
+ * @param attribute - The Employee field to group by
  * @returns Record<string, Employee[]> where keys are attribute values
  */
 
+export type GroupAttribute =
+  "country" | "region" | "gender" | "pcsEse" | "contractType" | "workingTime" | "departureReason" | "ageGroup" | "idcc";
+
 export function groupByAttribute(
   employees: Employee[],
-  attribute: "country" | "gender" | "pcsEse"
+  attribute: GroupAttribute
 ): Record<string, Employee[]> {
   const groups: Record<string, Employee[]> = {};
 
@@ -1,11 +1,18 @@
-import { Employee } from "../types.server";
+import { Employee, HeadcountMeasure } from "../types.server";
+import { isEmployedBeyond } from "../employment.server";
+import { countEmployees } from "./full-time-equivalent.server";
+import { formatDate } from "../extract-period.server";
 
 /**
  * Computes the number of employees with active contracts at a given period end date.
  * 
- * An employee is considered "active" if:
- * - Contract start ≤ periodEndDate
- * - (Contract end is null OR contract end > periodEndDate)
+ * An employee is considered "active" if one of their contracts (see isEmployedBeyond):
+ * - Starts on or before periodEndDate
+ * - Has no end date OR ends after periodEndDate
+ * A person holding several contracts is counted once.
+ * 
+ * In "fte" mode, active employees are weighted by their full-time equivalent
+ * (see computeFte) instead of counting one per person.
  * 
  *  Addresses the following  questions (Extract from questions.csv):
  *   - S1-6_02: Number of employees (end of period)
@@ -16,28 +23,29 @@ import { Employee } from "../types.server";
  * 
  * @param employees - Normalized employee records from DSN
  * @param periodEndDate - End date of reporting period (from DSN S20.G00.05.005)
+ * @param measure - "headcount" (default) or "fte"
  * @returns { value: number, explanation: string }
  */
 export function computeHeadcountAtPeriodEnd(
   employees: Employee[],
-  periodEndDate: Date
+  periodEndDate: Date,
+  measure: HeadcountMeasure = "headcount"
 ): { value: number; explanation: string } {
-  const activeEmployees = employees.filter(emp => {
-    if (!emp.contractStart) return false;
-    if (emp.contractStart > periodEndDate) return false;
-    if (emp.contractEnd && emp.contractEnd <= periodEndDate) return false;
-    return true;
-  });
+  const activeEmployees = employees.filter(emp => isEmployedBeyond(emp, periodEndDate));
 
   const count = activeEmployees.length;
-  const formattedDate = formatDateForExplanation(periodEndDate);
+  const formattedDate = formatDate(periodEndDate);
+
+  if (measure === "fte") {
+    const fte = countEmployees(activeEmployees, "fte", periodEndDate);
+    return {
+      value: fte,
+      explanation: `${fte} full-time equivalent${fte !== 1 ? 's' : ''} (${count} employee${count !== 1 ? 's' : ''}) with active contracts as of ${formattedDate}`
+    };
+  }
   
   return {
     value: count,
     explanation: `${count} employee${count !== 1 ? 's' : ''} with active contracts as of ${formattedDate}`
   };
 }
-
-function formatDateForExplanation(date: Date): string {
-  return date.toISOString().split('T')[0];
-}
@@ -1,16 +1,15 @@
 import { Employee } from "../types.server";
+import { isEmployedOn } from "../employment.server";
+import { formatDate } from "../extract-period.server";
 
 export function computeHeadcountAtPeriodStart(
   employees: Employee[],
   periodStart: Date
 ): { value: number; explanation: string } {
-  const activeAtStart = employees.filter(emp => 
-    emp.contractStart && emp.contractStart <= periodStart &&
-    (!emp.contractEnd || emp.contractEnd >= periodStart)
-  ).length;
+  const activeAtStart = employees.filter(emp => isEmployedOn(emp, periodStart)).length;
   
   return {
     value: activeAtStart,
-    explanation: `${activeAtStart} employees with active contracts as of ${periodStart.toISOString().split('T')[0]}`
+    explanation: `${activeAtStart} employees with active contracts as of ${formatDate(periodStart)}`
   };
 }
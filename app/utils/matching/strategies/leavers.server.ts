@@ -1,4 +1,6 @@
 import { Employee } from "../types.server";
+import { findTransfers } from "../employment.server";
+import { formatDate } from "../extract-period.server";
 
 /**
  * Counts employees who left during the reporting period.
@@ -7,8 +9,14 @@ import { Employee } from "../types.server";
  *   - S1-6_11: Number of leavers during period
  * 
  * An employee is considered a "leaver" if:
- * - They have a contract end date
- * - The end date falls within [periodStart, periodEnd] (inclusive)
+ * - They have an end of employment: every one of their contracts has ended
+ *   (a contract ending while another one goes on is not a departure)
+ * - The end of their last contract falls within [periodStart, periodEnd] (inclusive)
+ * 
+ * Transfers to another establishment of the company (see findTransfers) and
+ * relationships ended without contract termination (S21.G00.62.002 = 099,
+ * departure reason "transfer") are not departures; their number is reported
+ * in the explanation.
  * 
  * @param employees - Normalized employee records from DSN
  * @param period - { start: Date, end: Date } of reporting period
@@ -18,21 +26,33 @@ export function computeLeavers(
   employees: Employee[],
   period: { start: Date; end: Date }
 ): { value: number; explanation: string } {
-  const leavers = employees.filter(emp => {
-    if (!emp.contractEnd) return false;
-    return emp.contractEnd >= period.start && emp.contractEnd <= period.end;
-  });
+  const leavers = employees.filter(emp => isLeaver(emp, period));
 
   const count = leavers.length;
+  const transfers = employees.filter(emp => findTransfers(emp, period).length > 0).length;
+  const withoutTermination = employees.filter(emp => endsWithin(emp, period) && emp.departureReason === "transfer").length;
   const start = formatDate(period.start);
   const end = formatDate(period.end);
+  const notes = [
+    transfers > 0 ? `${transfers} transfer${transfers !== 1 ? 's' : ''} between establishments` : null,
+    withoutTermination > 0 ? `${withoutTermination} end${withoutTermination !== 1 ? 's' : ''} of relationship without contract termination` : null,
+  ].filter(Boolean);
+  const transferNote = notes.length > 0 ? ` (${notes.join(', ')} not counted)` : '';
   
   return {
     value: count,
-    explanation: `${count} employee${count !== 1 ? 's' : ''} left between ${start} and ${end}`
+    explanation: `${count} employee${count !== 1 ? 's' : ''} left between ${start} and ${end}${transferNote}`
   };
 }
 
-function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
+/**
+ * True when the employee's employment ended within the period, for a reason
+ * other than a transfer (see computeLeavers).
+ */
+export function isLeaver(employee: Employee, period: { start: Date; end: Date }): boolean {
+  return endsWithin(employee, period) && employee.departureReason !== "transfer";
+}
+
+function endsWithin(employee: Employee, period: { start: Date; end: Date }): boolean {
+  return !!employee.contractEnd && employee.contractEnd >= period.start && employee.contractEnd <= period.end;
 }
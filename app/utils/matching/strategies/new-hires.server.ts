@@ -0,0 +1,42 @@
+import { Employee } from "../types.server";
+import { formatDate } from "../extract-period.server";
+
+/**
+ * Counts employees hired during the reporting period.
+ * 
+ *  Addresses the following ESG/CSRD questions:
+ *   - S1-6_27: Number of new employees hired during period
+ *   - S1-6_28: Number of new employees hired [by country]
+ *   - S1-6_30: Number of new employees hired [by gender]
+ *   - S1-6_31: Number of new employees hired [by category]
+ * 
+ * An employee is considered a "new hire" if:
+ * - Their start of employment (earliest contract start) falls within [periodStart, periodEnd] (inclusive)
+ *
+ * The start of employment covers every contract of the merged timeline, so
+ * contract renewals and rehires after an earlier contract in the uploaded
+ * months are not counted as hires. Earlier contracts that were not uploaded
+ * cannot be seen.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeNewHires(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number; explanation: string } {
+  const hires = employees.filter(emp => {
+    if (!emp.contractStart) return false;
+    return emp.contractStart >= period.start && emp.contractStart <= period.end;
+  });
+
+  const count = hires.length;
+  const start = formatDate(period.start);
+  const end = formatDate(period.end);
+
+  return {
+    value: count,
+    explanation: `${count} employee${count !== 1 ? 's' : ''} hired between ${start} and ${end}`
+  };
+}
@@ -0,0 +1,59 @@
+import { Employee } from "../types.server";
+import { formatDate } from "../extract-period.server";
+
+/**
+ * Computes the annual total remuneration ratio: highest paid individual vs
+ * median of all other employees.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-16_04: Annual total remuneration ratio
+ * 
+ * Total remuneration of each employee is summed over the uploaded declaration(s):
+ * gross pay (S21.G00.51, type 001) + bonuses (S21.G00.52) + other income
+ * (S21.G00.54), see normalizeEmployees / mergeEmployeeTimelines. When a single
+ * monthly DSN is uploaded, the ratio is based on that month only.
+ * 
+ * Formula: highest total remuneration / median total remuneration of the
+ *          other employees (highest paid excluded), rounded to 2 decimals
+ * 
+ * The explanation never mentions who the highest paid person is.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number | null, explanation: string }
+ */
+export function computeRemunerationRatio(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number | null; explanation: string } {
+  const totals = employees
+    .map(emp => emp.totalRemuneration)
+    .filter((total): total is number => total !== null && total > 0)
+    .sort((a, b) => b - a);
+
+  if (totals.length < 2) {
+    return {
+      value: null,
+      explanation: `Remuneration ratio not computable: ${totals.length} employee${totals.length !== 1 ? 's' : ''} with remuneration`
+    };
+  }
+
+  const [highest, ...others] = totals;
+  const median = computeMedian(others);
+  const ratio = parseFloat((highest / median).toFixed(2));
+
+  return {
+    value: ratio,
+    explanation:
+      `Remuneration ratio: ${highest.toFixed(2)} / ${median.toFixed(2)} = ${ratio} ` +
+      `(highest annual total remuneration / median of the ${others.length} other employee${others.length !== 1 ? 's' : ''}, ` +
+      `from ${formatDate(period.start)} to ${formatDate(period.end)})`
+  };
+}
+
+function computeMedian(sortedValues: number[]): number {
+  const middle = Math.floor(sortedValues.length / 2);
+  return sortedValues.length % 2 === 0
+    ? (sortedValues[middle - 1] + sortedValues[middle]) / 2
+    : sortedValues[middle];
+}
@@ -1,41 +1,110 @@
-import { Employee } from "../types.server";
+import { AveragingMethod, Employee, TurnoverOptions } from "../types.server";
 import { computeLeavers } from "./leavers.server";
-//import { computeAverageHeadcount } from "./average-headcount.server";
+import { computeAverageHeadcount } from "./average-headcount.server";
 import { computeHeadcountAtPeriodStart } from "./headcount-at-period-start.server";
+import { computeHeadcountAtPeriodEnd } from "./headcount-at-period-end.server";
+
+export const DEFAULT_TURNOVER_OPTIONS: TurnoverOptions = {
+  denominator: "start",
+  annualize: false,
+  excludeEndOfContract: false,
+};
+
+const DAYS_PER_YEAR = 365;
 
 /**
- * Computes annualized turnover rate as a percentage.
+ * Computes turnover rate as a percentage.
  * 
  * Addresses the following ESG/CSRD question:
  *   - S1-6_12: Turnover rate (%)
  * 
- * Formula: (Number of leavers / Average headcount) * 100
+ * Formula: (Number of leavers / Headcount) * 100, where the options choose:
+ * - denominator: headcount at period start (default), average headcount
+ *   (with the averaging method of the questionnaire) or headcount at period end
+ * - annualize: for periods shorter than a year, the rate is multiplied by
+ *   365 / number of days of the period
+ * - excludeEndOfContract: leavers whose fixed-term contract reached its term
+ *   (departure reason "end-of-contract") are not counted
+ * Turnover always counts people, even when headcounts are reported in FTE.
+ * The explanation states the formula actually used.
  * 
  * @param employees - Normalized employee records from DSN
  * @param period - { start: Date, end: Date } of reporting period
+ * @param options - Denominator, annualization and exclusion of ended fixed-term contracts
+ * @param averaging - Averaging method of the "average" denominator
  * @returns { value: number, explanation: string }
  */
 export function computeTurnoverRate(
   employees: Employee[],
-  period: { start: Date; end: Date }
+  period: { start: Date; end: Date },
+  options: TurnoverOptions = DEFAULT_TURNOVER_OPTIONS,
+  averaging?: AveragingMethod
 ): { value: number; explanation: string } {
-  const leavers = computeLeavers(employees, period);
-  //const avgHeadcount = computeAverageHeadcount(employees, period);
-  const startHeadcount = computeHeadcountAtPeriodStart(employees, period.start);
+  const counted = options.excludeEndOfContract
+    ? employees.filter(emp => emp.departureReason !== "end-of-contract")
+    : employees;
+  const leavers = computeLeavers(counted, period);
+  const base = computeTurnoverBase(employees, period, options, averaging);
   
   /// Avoid division by zero
-  if (startHeadcount.value === 0) {
+  if (base.headcount === 0) {
       return {
         value: 0,
-        explanation: "Turnover rate: 0% (no starting headcount)"
+        explanation: `Turnover rate: 0% (no ${base.label})`
       };
   }
 
-  //const rate = Math.round((leavers.value / avgHeadcount.value) * 100);
-  const rate = Math.round((leavers.value / startHeadcount.value) * 100);
+  const annualization = options.annualize ? getAnnualizationFactor(period) : null;
+  const rate = Math.round((leavers.value / base.headcount) * 100 * (annualization?.factor ?? 1));
+  const excluded = computeLeavers(employees, period).value - leavers.value;
+  const exclusionNote = options.excludeEndOfContract
+    ? `; ${excluded} end-of-fixed-term-contract leaver${excluded !== 1 ? 's' : ''} excluded`
+    : '';
 
   return {
     value: rate,
-    explanation: `Turnover rate: ${rate}% (${leavers.value} leavers / ${startHeadcount.value} average employees)`
+    explanation: `Turnover rate${annualization ? ' (annualized)' : ''}: ${rate}% ` +
+      `(${leavers.value} leaver${leavers.value !== 1 ? 's' : ''} / ${base.headcount} ${base.label}` +
+      `${annualization ? ` × ${annualization.label}` : ''}${exclusionNote})`
   };
 }
+
+/**
+ * Headcount the turnover is divided by, with its label for explanations.
+ * Shared by S1-6_12 and S1-6_26 so that both rates can be compared.
+ */
+export function computeTurnoverBase(
+  employees: Employee[],
+  period: { start: Date; end: Date },
+  options: TurnoverOptions,
+  averaging?: AveragingMethod
+): { headcount: number; label: string } {
+  switch (options.denominator) {
+    case "average":
+      return {
+        headcount: computeAverageHeadcount(employees, period, "headcount", averaging).value,
+        label: "average employees",
+      };
+    case "end":
+      return {
+        headcount: computeHeadcountAtPeriodEnd(employees, period.end).value,
+        label: "employees at period end",
+      };
+    default:
+      return {
+        headcount: computeHeadcountAtPeriodStart(employees, period.start).value,
+        label: "employees at period start",
+      };
+  }
+}
+
+/**
+ * Factor bringing a rate measured over a period shorter than a year to a yearly
+ * rate (365 / days of the period); null for periods of a year or more.
+ */
+export function getAnnualizationFactor(period: { start: Date; end: Date }): { factor: number; label: string } | null {
+  const days = Math.round((period.end.getTime() - period.start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  if (days >= DAYS_PER_YEAR) return null;
+
+  return { factor: DAYS_PER_YEAR / days, label: `${DAYS_PER_YEAR} / ${days} days` };
+}
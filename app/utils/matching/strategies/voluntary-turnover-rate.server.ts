@@ -0,0 +1,56 @@
+import { AveragingMethod, Employee, TurnoverOptions } from "../types.server";
+import { computeLeavers } from "./leavers.server";
+import { computeTurnoverBase, DEFAULT_TURNOVER_OPTIONS, getAnnualizationFactor } from "./turnover-rate.server";
+
+/**
+ * Computes the voluntary turnover rate as a percentage.
+ * 
+ * Addresses the following ESG/CSRD question:
+ *   - S1-6_26: Voluntary turnover rate (%)
+ * 
+ * Only leavers whose termination reason (S21.G00.62.002) is employee-initiated
+ * count: resignation, rupture conventionnelle, end of trial period or early end
+ * of a fixed-term contract at the employee's initiative (see DEPARTURE_REASONS in
+ * normalize.server.ts). Rupture conventionnelle, agreed by both parties, is
+ * included since it requires the employee's consent.
+ * The denominator and annualization follow the S1-6_12 options (see
+ * computeTurnoverRate), so both rates can be compared.
+ * 
+ * Formula: (Number of voluntary leavers / Headcount) * 100
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @param options - Turnover options shared with S1-6_12
+ * @param averaging - Averaging method of the "average" denominator
+ * @returns { value: number, explanation: string }
+ */
+export function computeVoluntaryTurnoverRate(
+  employees: Employee[],
+  period: { start: Date; end: Date },
+  options: TurnoverOptions = DEFAULT_TURNOVER_OPTIONS,
+  averaging?: AveragingMethod
+): { value: number; explanation: string } {
+  const voluntaryLeavers = computeLeavers(
+    employees.filter(emp => emp.departureReason === "voluntary"),
+    period
+  );
+  const base = computeTurnoverBase(employees, period, options, averaging);
+
+  // Avoid division by zero
+  if (base.headcount === 0) {
+    return {
+      value: 0,
+      explanation: `Voluntary turnover rate: 0% (no ${base.label})`
+    };
+  }
+
+  const annualization = options.annualize ? getAnnualizationFactor(period) : null;
+  const rate = Math.round((voluntaryLeavers.value / base.headcount) * 100 * (annualization?.factor ?? 1));
+
+  return {
+    value: rate,
+    explanation: `Voluntary turnover rate${annualization ? " (annualized)" : ""}: ${rate}% ` +
+      `(${voluntaryLeavers.value} voluntary leaver${voluntaryLeavers.value !== 1 ? "s" : ""} / ${base.headcount} ${base.label}` +
+      `${annualization ? ` × ${annualization.label}` : ""})`
+  };
+}
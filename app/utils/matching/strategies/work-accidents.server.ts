@@ -0,0 +1,122 @@
+import { Absence, AbsenceType, Employee } from "../types.server";
+import { formatDate } from "../extract-period.server";
+
+// Stoppages counted as work-related for ESRS S1-14. Commuting accidents (04)
+// are excluded: ESRS only counts them when transport is organised by the employer,
+// which the DSN does not tell.
+const WORK_RELATED: AbsenceType[] = ["work-accident", "occupational-disease"];
+
+/**
+ * Counts recordable work-related accidents that occurred during the reporting period.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-14_01: Number of recordable work-related accidents
+ * 
+ * A work accident is a stoppage with reason 06 (S21.G00.60.001) whose accident
+ * date (S21.G00.60.012, or first day off when absent) falls within
+ * [periodStart, periodEnd]. Each stoppage counts once.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeWorkAccidents(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number; explanation: string } {
+  const count = countStoppagesStarted(employees, period, "work-accident");
+
+  return {
+    value: count,
+    explanation: `${count} work accident${count !== 1 ? 's' : ''} (S21.G00.60 reason 06) between ${formatDate(period.start)} and ${formatDate(period.end)}`
+  };
+}
+
+/**
+ * Counts recordable cases of work-related ill health (occupational diseases)
+ * that started during the reporting period.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-14_02: Number of cases of recordable work-related ill health
+ * 
+ * Same rule as computeWorkAccidents, for stoppages with reason 05.
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeOccupationalDiseases(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number; explanation: string } {
+  const count = countStoppagesStarted(employees, period, "occupational-disease");
+
+  return {
+    value: count,
+    explanation: `${count} occupational disease case${count !== 1 ? 's' : ''} (S21.G00.60 reason 05) between ${formatDate(period.start)} and ${formatDate(period.end)}`
+  };
+}
+
+/**
+ * Counts calendar days lost to work accidents and occupational diseases.
+ * 
+ *  Addresses the following ESG/CSRD question:
+ *   - S1-14_03: Number of days lost to work-related injuries and ill health
+ * 
+ * Every work-related stoppage (reasons 05 and 06) is clipped to the reporting
+ * period: from the day after the last day worked to the day before the return
+ * (or the expected end, or the period end when still ongoing).
+ * 
+ * @param employees - Normalized employee records from DSN
+ * @param period - { start: Date, end: Date } of reporting period
+ * @returns { value: number, explanation: string }
+ */
+export function computeDaysLost(
+  employees: Employee[],
+  period: { start: Date; end: Date }
+): { value: number; explanation: string } {
+  const stoppages = employees
+    .flatMap(emp => emp.absences)
+    .filter(absence => WORK_RELATED.includes(absence.type));
+
+  let days = 0;
+  let counted = 0;
+  for (const stoppage of stoppages) {
+    const lost = daysWithinPeriod(stoppage, period);
+    if (lost > 0) {
+      days += lost;
+      counted++;
+    }
+  }
+
+  return {
+    value: days,
+    explanation: `${days} calendar day${days !== 1 ? 's' : ''} lost over ${counted} work-related stoppage${counted !== 1 ? 's' : ''} (S21.G00.60 reasons 05 and 06) between ${formatDate(period.start)} and ${formatDate(period.end)}`
+  };
+}
+
+function countStoppagesStarted(
+  employees: Employee[],
+  period: { start: Date; end: Date },
+  type: AbsenceType
+): number {
+  return employees
+    .flatMap(emp => emp.absences)
+    .filter(absence => {
+      if (absence.type !== type) return false;
+      const date = absence.accidentDate ?? absence.start;
+      return date !== null && date >= period.start && date <= period.end;
+    }).length;
+}
+
+function daysWithinPeriod(absence: Absence, period: { start: Date; end: Date }): number {
+  if (!absence.start) return 0;
+
+  const start = absence.start > period.start ? absence.start : period.start;
+  const end = absence.end && absence.end < period.end ? absence.end : period.end;
+  if (start > end) return 0;
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((Date.UTC(end.getFullYear(), end.getMonth(), end.getDate()) -
+    Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) / msPerDay) + 1;
+}
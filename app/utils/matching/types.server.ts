@@ -3,19 +3,153 @@
  * All fields are derived from specific DSN blocks for auditability.
  */
 export interface Employee {
-  id: string;                     // S21.G00.30.001
-  country: string;                // S21.G00.11.015 (Establishment country code ISO code)
+  id: string;                     // S21.G00.30.001 (NIR), else S21.G00.30.020 (technical identifier)
+  country: string;                // S21.G00.11.015 (Establishment country code ISO code, primary contract)
+  region: string;                 // NUTS-2 region of the establishment postal code S21.G00.11.004, else country (see getEstablishmentRegion)
   birthCountry: string;           // S21.G00.30.029 
   gender: "M" | "F" | null;       // S21.G00.30.005 ("1" = M, "2" = F)
-  contractStart: Date | null;     // S21.G00.40.030 (YYYYMMDD)
-  contractEnd: Date | null;       // S21.G00.40.031 (YYYYMMDD)
+  birthDate: Date | null;         // S21.G00.30.006 (YYYYMMDD)
+  age: number | null;             // Age in full years at the reporting period end
+  ageGroup: AgeGroup | null;      // ESRS S1-9 age band derived from age
+  contracts: ContractPeriod[];    // Every S21.G00.40 contract of the person, in declaration order
+  contractStart: Date | null;     // Start of employment: earliest S21.G00.40.001 of the contracts
+  contractEnd: Date | null;       // End of employment: latest S21.G00.62.001, null while a contract is open
+  // pcsEse to uniteMesure: primary contract (see normalizeEmployees)
   pcsEse: string | null;          // S21.G00.40.004 (job classification)
+  idcc: string | null;            // S21.G00.40.017 (collective agreement code, "9999" = none)
+  disability: boolean;            // S21.G00.40.072 BOETH status declared
+  contractNature: string | null;  // S21.G00.40.007 (e.g. "01" = CDI, "02" = CDD)
+  contractType: ContractType | null; // Derived from S21.G00.40.007 / .008
+  workingTime: WorkingTime | null;   // Derived from S21.G00.40.014
+  quotite: number | null;         // S21.G00.40.013 (contractual working time)
+  quotiteCategorie: number | null; // S21.G00.40.012 (reference working time of the category)
+  uniteMesure: string | null;     // S21.G00.40.011 (unit of both quotités, e.g. "10" = hours)
+  departureCode: string | null;   // S21.G00.62.002 of the last contract to end (e.g. "059" = démission)
+  departureReason: DepartureReason | null; // Derived from S21.G00.62.002 (null = no departure)
+  grossPay: number | null;        // Sum of S21.G00.51.013 for type 001 (rémunération brute non plafonnée)
+  paidHours: number | null;       // Sum of S21.G00.51.012 hours for the same remunerations
+  totalRemuneration: number | null; // grossPay + S21.G00.52.002 bonuses + S21.G00.54.002 other income
+  absences: Absence[];            // S21.G00.60 work stoppages + S21.G00.65 parental leave
 }
 
+/**
+ * One contract of an employee's timeline, from S21.G00.40 / S21.G00.62.
+ */
+export interface ContractPeriod {
+  number: string | null;        // S21.G00.40.009
+  establishment: string | null; // S21.G00.11.001 (NIC of the establishment declaring the contract)
+  start: Date | null;           // S21.G00.40.001
+  end: Date | null;             // S21.G00.62.001; null = still open
+  quotite: number | null;       // S21.G00.40.013
+  quotiteCategorie: number | null; // S21.G00.40.012
+  uniteMesure: string | null;   // S21.G00.40.011
+  departureCode: string | null; // S21.G00.62.002
+}
+
+/**
+ * Work stoppage or leave of an employee, from S21.G00.60 / S21.G00.65.
+ */
+export interface Absence {
+  type: AbsenceType;
+  code: string | null;       // S21.G00.60.001 or S21.G00.65.001
+  start: Date | null;        // First day off (day after S21.G00.60.002)
+  end: Date | null;          // Last day off (day before S21.G00.60.010, else S21.G00.60.003); null = ongoing
+  accidentDate: Date | null; // S21.G00.60.012
+}
+
+export type AbsenceType =
+  | "illness"              // 01 Maladie
+  | "maternity"            // 02 Maternité
+  | "paternity"            // 03 Paternité et accueil de l'enfant
+  | "commuting-accident"   // 04 Accident de trajet
+  | "occupational-disease" // 05 Maladie professionnelle
+  | "work-accident"        // 06 Accident du travail
+  | "parental"             // S21.G00.65 507 Congé parental d'éducation
+  | "other";
+
+/**
+ * ESRS S1-6 contract types.
+ */
+export type ContractType = "permanent" | "temporary" | "non-guaranteed-hours";
+
+/**
+ * ESRS S1-6 working time.
+ */
+export type WorkingTime = "full-time" | "part-time";
+
+/**
+ * ESRS S1-9 age bands: under 30, 30 to 50 (inclusive), over 50.
+ */
+export type AgeGroup = "under-30" | "30-50" | "over-50";
+
+/**
+ * Reason an employee left, grouped from DSN termination codes.
+ * "transfer": the relationship with the employer ended without the contract
+ * being broken; not a departure (see computeLeavers).
+ */
+export type DepartureReason = "voluntary" | "involuntary" | "retirement" | "end-of-contract" | "transfer" | "other";
+
+/**
+ * How employees are counted by the headcount strategies:
+ * - "headcount": number of people
+ * - "fte": full-time equivalents (see computeFte)
+ */
+export type HeadcountMeasure = "headcount" | "fte";
+
+/**
+ * How the average headcount over the period is computed (see computeAverageHeadcount):
+ * - "two-point": (start + end) / 2
+ * - "monthly": mean of the month-end headcounts
+ * - "daily-weighted": mean of the daily headcounts
+ */
+export type AveragingMethod = "two-point" | "monthly" | "daily-weighted";
+
+/**
+ * Turnover rate settings (see computeTurnoverRate):
+ * - denominator: headcount at period start, average headcount or headcount at period end
+ * - annualize: scale rates of periods shorter than a year to a yearly rate
+ * - excludeEndOfContract: leave out fixed-term contracts that reached their term
+ */
+export interface TurnoverOptions {
+  denominator: "start" | "average" | "end";
+  annualize: boolean;
+  excludeEndOfContract: boolean;
+}
+
+/**
+ * Options chosen by the user for the whole questionnaire.
+ */
+export interface ComputeOptions {
+  measure: HeadcountMeasure;
+  averaging?: AveragingMethod; // Default: "two-point"
+  turnover?: TurnoverOptions;  // Default: start-of-period denominator, not annualized, all leavers
+  period?: { start: Date; end: Date }; // Reporting period set by the user (default: from the DSN months)
+}
+
+/**
+ * Breakdown dimensions of table questions (see DIMENSIONS in registry.server.ts).
+ */
+export type DimensionName =
+  | "country" | "region" | "gender" | "contractType" | "workingTime"
+  | "pcsEse" | "ageGroup" | "departureReason" | "idcc";
+
+/**
+ * Dimension values of a table cell, e.g. { gender: "F", pcsEse: "38" };
+ * totals have the value TOTAL_DIMENSION_VALUE for the aggregated dimensions.
+ */
+export type AnswerDimensions = Partial<Record<DimensionName, string>>;
+
+export const TOTAL_DIMENSION_VALUE = "total";
+
 /**
  * Structured answer with data lineage.
+ *
+ * Answers are stored by key (`${questionId}_${values}` for table rows), but the
+ * key is only an identifier: consumers read `questionId` and `dimensions`.
  */
 export interface Answer {
+  questionId: string; // Question answered (child question for a table row)
+  dimensions: AnswerDimensions; // Table row values, empty for global answers
   value: string | number | null;
   source: "computed" | "manual";
   explanation: string; // Human-readable justification for audit
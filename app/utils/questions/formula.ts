@@ -0,0 +1,146 @@
+/**
+ * Arithmetic formulas of computed questions ("formula" column of questions.csv).
+ *
+ * A formula combines numbers and other answers with + - * / and parentheses,
+ * e.g. `S1-6_11 / S1-6_03 * 100`. References are answer IDs:
+ * - plain IDs (`S1-6_03`, `K_718_F_permanent`), a "-" inside an ID being
+ *   followed by a digit, so `S1-6_11-S1-6_27` reads as a subtraction
+ * - braced IDs for any other answer key (`{S1-6_25_non-guaranteed-hours}`)
+ * - braced patterns where `*` matches any part of the key, summing every
+ *   matching answer (`{K_718_*_temporary}` = temporary contracts of all genders),
+ *   table totals excepted
+ */
+
+export type FormulaExpression =
+  | { type: "number"; value: number }
+  | { type: "reference"; id: string } // `*` in id: sum of matching answers
+  | { type: "negate"; operand: FormulaExpression }
+  | { type: "binary"; operator: "+" | "-" | "*" | "/"; left: FormulaExpression; right: FormulaExpression };
+
+export interface Formula {
+  expression: string; // Formula as written in the CSV
+  ast: FormulaExpression;
+  references: string[]; // Referenced answer IDs and patterns, in order of appearance
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "reference"; id: string }
+  | { type: "operator"; value: "+" | "-" | "*" | "/" | "(" | ")" };
+
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?/;
+const ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(?:-\d[A-Za-z0-9_]*)*/;
+
+/**
+ * Parses a formula expression.
+ * @throws Error describing the first syntax error
+ */
+export function parseFormula(expression: string): Formula {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new Error("empty formula");
+
+  let position = 0;
+  const references: string[] = [];
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (token: Token | undefined, ...values: string[]): boolean =>
+    token?.type === "operator" && values.includes(token.value);
+
+  // sum := product (("+" | "-") product)*
+  function parseSum(): FormulaExpression {
+    let left = parseProduct();
+    while (isOperator(peek(), "+", "-")) {
+      const operator = (tokens[position++] as { value: "+" | "-" }).value;
+      left = { type: "binary", operator, left, right: parseProduct() };
+    }
+    return left;
+  }
+
+  // product := factor (("*" | "/") factor)*
+  function parseProduct(): FormulaExpression {
+    let left = parseFactor();
+    while (isOperator(peek(), "*", "/")) {
+      const operator = (tokens[position++] as { value: "*" | "/" }).value;
+      left = { type: "binary", operator, left, right: parseFactor() };
+    }
+    return left;
+  }
+
+  // factor := number | reference | "-" factor | "(" sum ")"
+  function parseFactor(): FormulaExpression {
+    const token = tokens[position++];
+    if (!token) throw new Error("unexpected end of formula");
+
+    if (token.type === "number") return { type: "number", value: token.value };
+    if (token.type === "reference") {
+      references.push(token.id);
+      return { type: "reference", id: token.id };
+    }
+    if (token.value === "-") return { type: "negate", operand: parseFactor() };
+    if (token.value === "(") {
+      const inner = parseSum();
+      if (!isOperator(tokens[position++], ")")) throw new Error('missing ")"');
+      return inner;
+    }
+    throw new Error(`unexpected "${token.value}"`);
+  }
+
+  const ast = parseSum();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`unexpected "${token.type === "operator" ? token.value : token.type === "number" ? token.value : token.id}"`);
+  }
+
+  return { expression, ast, references };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = expression.trim();
+
+  while (rest.length > 0) {
+    const char = rest[0];
+    let length: number;
+
+    if ("+-*/()".includes(char)) {
+      tokens.push({ type: "operator", value: char as "+" | "-" | "*" | "/" | "(" | ")" });
+      length = 1;
+    } else if (char === "{") {
+      const end = rest.indexOf("}");
+      if (end === -1) throw new Error('missing "}"');
+      const id = rest.slice(1, end).trim();
+      if (!id) throw new Error("empty reference {}");
+      tokens.push({ type: "reference", id });
+      length = end + 1;
+    } else {
+      const number = rest.match(NUMBER_PATTERN);
+      const id = rest.match(ID_PATTERN);
+      if (number) {
+        tokens.push({ type: "number", value: parseFloat(number[0]) });
+        length = number[0].length;
+      } else if (id) {
+        tokens.push({ type: "reference", id: id[0] });
+        length = id[0].length;
+      } else {
+        throw new Error(`unexpected "${char}"`);
+      }
+    }
+
+    rest = rest.slice(length).trimStart();
+  }
+
+  return tokens;
+}
+
+/**
+ * True when the reference (an ID or a `*` pattern) designates the answer key.
+ */
+export function referenceMatches(reference: string, key: string): boolean {
+  if (!reference.includes("*")) return reference === key;
+
+  const pattern = reference
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(key);
+}
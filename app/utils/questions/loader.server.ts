@@ -2,6 +2,7 @@
 import { readFileSync } from "fs";
 import { resolve } from "path";
 import { QuestionNode } from "./types";
+import { Formula, parseFormula } from "./formula";
 import { QUESTIONS_CONFIG } from "config/questions";
 
 /**
@@ -26,6 +27,7 @@ export function createRowObject(headers: string[], values: string[]): Record<str
 
 /**
  * Transforms a row object into a QuestionNode with processed fields.
+ * @throws Error when the "formula" column is not a valid expression
  */
 export function createQuestionNode(row: Record<string, string>): QuestionNode {
   // Parse enums (comma-separated as per your CSV format)
@@ -36,6 +38,15 @@ export function createQuestionNode(row: Record<string, string>): QuestionNode {
     ? row["enum fr"].split(",").map(s => s.trim()).filter(Boolean)
     : undefined;
 
+  let formula: Formula | undefined;
+  if (row["formula"]) {
+    try {
+      formula = parseFormula(row["formula"]);
+    } catch (error) {
+      throw new Error(`Question ${row["ID"]}: invalid formula "${row["formula"]}" (${(error as Error).message})`);
+    }
+  }
+
   return {
     id: row["ID"],
     labelEn: row["question label en"],
@@ -46,6 +57,8 @@ export function createQuestionNode(row: Record<string, string>): QuestionNode {
     unit: row["unit"] || undefined,
     enumEn,
     enumFr,
+    strategy: row["strategy"] || undefined,
+    formula,
     children: [],
   };
 }
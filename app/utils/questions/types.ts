@@ -1,3 +1,5 @@
+import { Formula } from "./formula";
+
 /**
  * Represents a hierarchical question node in the CSRD compliance questionnaire structure.
  * 
@@ -54,6 +56,12 @@
  * - `labelEn`/`labelFr`: Primary and secondary language labels
  * - `enumEn`/`enumFr`: Corresponding enumeration values for select-type questions
  * 
+ * **Computation:**
+ * - `strategy`: optional "strategy" CSV column binding the question to a named
+ *   strategy; empty means the default binding of config/strategy-bindings.ts
+ * - `formula`: optional "formula" CSV column computing the answer from other
+ *   answers (e.g. `S1-6_11 / S1-6_03 * 100`, see formula.ts)
+ * 
  * **Data Integrity Guarantees:**
  * - Every node has a unique `id` following the CSRD question numbering convention (e.g., "S1-6_02")
  * - `order` is always defined and determines sibling ordering
@@ -61,7 +69,6 @@
  * - `parentId` maintains referential integrity in flat representations (when used)
  */
 
-
 export interface QuestionNode {
   id: string;
   labelEn: string;
@@ -72,5 +79,7 @@ export interface QuestionNode {
   unit?: string;
   enumEn?: string[];
   enumFr?: string[];
+  strategy?: string; // Strategy binding, e.g. "headcount-at-period-end" or "group-by:country" (see matching/registry.server.ts)
+  formula?: Formula; // Parsed "formula" column, e.g. "S1-6_11 / S1-6_03 * 100"
   children: QuestionNode[]; // Critical for tree structure
 }
@@ -0,0 +1,64 @@
+// config/nuts-regions.ts
+
+/**
+ * French NUTS-2 regions (NUTS 2021 classification, unchanged in NUTS 2024),
+ * used for the region breakdown of S1-6_08 (see app/utils/matching/regions.server.ts).
+ */
+export const NUTS_2_REGIONS: Record<string, string> = {
+  FR10: "Île-de-France",
+  FRB0: "Centre — Val de Loire",
+  FRC1: "Bourgogne",
+  FRC2: "Franche-Comté",
+  FRD1: "Basse-Normandie",
+  FRD2: "Haute-Normandie",
+  FRE1: "Nord-Pas de Calais",
+  FRE2: "Picardie",
+  FRF1: "Alsace",
+  FRF2: "Champagne-Ardenne",
+  FRF3: "Lorraine",
+  FRG0: "Pays de la Loire",
+  FRH0: "Bretagne",
+  FRI1: "Aquitaine",
+  FRI2: "Limousin",
+  FRI3: "Poitou-Charentes",
+  FRJ1: "Languedoc-Roussillon",
+  FRJ2: "Midi-Pyrénées",
+  FRK1: "Auvergne",
+  FRK2: "Rhône-Alpes",
+  FRL0: "Provence-Alpes-Côte d'Azur",
+  FRM0: "Corse",
+  FRY1: "Guadeloupe",
+  FRY2: "Martinique",
+  FRY3: "Guyane",
+  FRY4: "La Réunion",
+  FRY5: "Mayotte",
+};
+
+/**
+ * Département → NUTS-2 region. Keys are the département part of postal codes:
+ * two digits in metropolitan France ("20" for both Corsican départements),
+ * three digits overseas. Saint-Pierre-et-Miquelon (975) and the overseas
+ * collectivities (977, 978, 98x) are outside NUTS.
+ */
+export const DEPARTEMENT_NUTS_2: Record<string, string> = {
+  "01": "FRK2", "02": "FRE2", "03": "FRK1", "04": "FRL0", "05": "FRL0",
+  "06": "FRL0", "07": "FRK2", "08": "FRF2", "09": "FRJ2", "10": "FRF2",
+  "11": "FRJ1", "12": "FRJ2", "13": "FRL0", "14": "FRD1", "15": "FRK1",
+  "16": "FRI3", "17": "FRI3", "18": "FRB0", "19": "FRI2", "20": "FRM0",
+  "21": "FRC1", "22": "FRH0", "23": "FRI2", "24": "FRI1", "25": "FRC2",
+  "26": "FRK2", "27": "FRD2", "28": "FRB0", "29": "FRH0", "30": "FRJ1",
+  "31": "FRJ2", "32": "FRJ2", "33": "FRI1", "34": "FRJ1", "35": "FRH0",
+  "36": "FRB0", "37": "FRB0", "38": "FRK2", "39": "FRC2", "40": "FRI1",
+  "41": "FRB0", "42": "FRK2", "43": "FRK1", "44": "FRG0", "45": "FRB0",
+  "46": "FRJ2", "47": "FRI1", "48": "FRJ1", "49": "FRG0", "50": "FRD1",
+  "51": "FRF2", "52": "FRF2", "53": "FRG0", "54": "FRF3", "55": "FRF3",
+  "56": "FRH0", "57": "FRF3", "58": "FRC1", "59": "FRE1", "60": "FRE2",
+  "61": "FRD1", "62": "FRE1", "63": "FRK1", "64": "FRI1", "65": "FRJ2",
+  "66": "FRJ1", "67": "FRF1", "68": "FRF1", "69": "FRK2", "70": "FRC2",
+  "71": "FRC1", "72": "FRG0", "73": "FRK2", "74": "FRK2", "75": "FR10",
+  "76": "FRD2", "77": "FR10", "78": "FR10", "79": "FRI3", "80": "FRE2",
+  "81": "FRJ2", "82": "FRJ2", "83": "FRL0", "84": "FRL0", "85": "FRG0",
+  "86": "FRI3", "87": "FRI2", "88": "FRF3", "89": "FRC1", "90": "FRC2",
+  "91": "FR10", "92": "FR10", "93": "FR10", "94": "FR10", "95": "FR10",
+  "971": "FRY1", "972": "FRY2", "973": "FRY3", "974": "FRY4", "976": "FRY5",
+};
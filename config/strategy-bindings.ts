@@ -0,0 +1,89 @@
+// config/strategy-bindings.ts
+
+/**
+ * Default question → strategy bindings (see app/utils/matching/registry.server.ts).
+ * A non-empty "strategy" column in questions.csv takes precedence, so new
+ * questions can be bound from the CSV without changing this file.
+ */
+export const STRATEGY_BINDINGS: Record<string, string> = {
+  // S1-6_01 Global employees
+  "S1-6_02": "headcount-at-period-end",
+  "S1-6_03": "average-headcount",
+  "S1-6_11": "leavers",
+  "S1-6_12": "turnover-rate",
+  "S1-6_26": "voluntary-turnover-rate",
+  "S1-6_27": "new-hires",
+
+  // Employees by country
+  "S1-6_04": "group-by:country",
+  "S1-6_05": "headcount-at-period-end",
+  "S1-6_06": "average-headcount",
+  "S1-6_28": "new-hires",
+
+  // Employees by gender and contract type
+  "S1-6_07": "group-by:gender+contractType",
+  "K_718": "headcount-at-period-end",
+  "K_719": "average-headcount",
+
+  // Employees by region (NUTS-2, country-level fallback abroad)
+  "S1-6_08": "group-by:region",
+  "S1-6_09": "headcount-at-period-end",
+  "S1-6_10": "average-headcount",
+
+  // Employees by professional category
+  "S1-6_18": "group-by:pcsEse",
+  "S1-6_19": "headcount-at-period-end",
+  "S1-6_20": "average-headcount",
+  "S1-6_31": "new-hires",
+
+  // Employees by gender and working time
+  "S1-6_21": "group-by:gender+workingTime",
+  "S1-6_22": "headcount-at-period-end",
+  "S1-6_23": "average-headcount",
+
+  // Leavers by departure reason
+  "S1-6_24": "group-by:departureReason",
+  "S1-6_25": "leavers",
+
+  // New hires by gender
+  "S1-6_29": "group-by:gender",
+  "S1-6_30": "new-hires",
+
+  // S1-6_13 Methodologies and context
+  "S1-6_14": "employee-measure",
+  "S1-6_15": "averaging-method",
+  "S1-6_16": "manual",
+  "S1-6_17": "manual",
+
+  // S1-9 Diversity
+  "S1-9_01": "group-by:ageGroup",
+  "S1-9_02": "headcount-at-period-end",
+  "S1-9_03": "average-headcount",
+
+  // S1-16 Remuneration
+  "S1-16_01": "gender-pay-gap",
+  "S1-16_02": "group-by:pcsEse",
+  "S1-16_03": "gender-pay-gap",
+  "S1-16_04": "remuneration-ratio",
+
+  // S1-14 Health and safety
+  "S1-14_01": "work-accidents",
+  "S1-14_02": "occupational-diseases",
+  "S1-14_03": "days-lost",
+
+  // S1-15 Work-life balance
+  "S1-15_01": "group-by:gender",
+  "S1-15_02": "family-leave",
+
+  // S1-8 Collective bargaining coverage
+  "S1-8_01": "group-by:country",
+  "S1-8_02": "collective-bargaining-coverage",
+  "S1-8_03": "group-by:idcc",
+  "S1-8_04": "headcount-at-period-end",
+
+  // S1-12 Persons with disabilities
+  "S1-12_01": "employees-with-disabilities",
+  "S1-12_02": "disability-rate",
+  "S1-12_03": "group-by:gender",
+  "S1-12_04": "employees-with-disabilities",
+};
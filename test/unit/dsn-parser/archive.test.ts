@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { readDsnArchive } from "~/utils/dsn-parser/archive.server";
+import { parseDsnStream } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+describe("DSN zip archive", () => {
+  it("streams each monthly DSN of the archive to the parser", async () => {
+    const zip = new JSZip();
+    for (const month of ["202506", "202501"]) {
+      zip.file(`dsn/dsn-${month}.txt`, fs.readFileSync(
+        path.resolve(__dirname, `../../fixtures/dsn-annual-${month}.txt`)
+      ));
+    }
+    zip.file("__MACOSX/dsn/._dsn-202501.txt", "metadata");
+    zip.file("readme.pdf", "not a dsn");
+
+    const files = await readDsnArchive(await zip.generateAsync({ type: "uint8array" }));
+
+    expect(files.map(f => f.fileName)).toEqual(["dsn-202501.txt", "dsn-202506.txt"]);
+    const declarations = await Promise.all(files.map(f => parseDsnStream(f.stream, f.fileName)));
+    expect(declarations.map(d => d.mois)).toEqual(["202501", "202506"]);
+  });
+
+  it("rejects an archive without DSN files", async () => {
+    const zip = new JSZip();
+    zip.file("readme.pdf", "not a dsn");
+
+    await expect(readDsnArchive(await zip.generateAsync({ type: "uint8array" })))
+      .rejects.toThrow("does not contain any DSN file");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { DsnValidationError } from "~/utils/dsn-parser/conformity.server";
+import fs from "fs";
+import path from "path";
+
+async function getReport(content: string) {
+  try {
+    await parseDsnFile(content);
+  } catch (err) {
+    if (err instanceof DsnValidationError) return err.report;
+    throw err;
+  }
+  throw new Error("Expected parseDsnFile to reject the declaration");
+}
+
+describe("DSN validation report", () => {
+  it("lists each problem with line, rubrique, severity and code", async () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../../fixtures/dsn-invalid-structure.txt"),
+      "utf-8"
+    );
+    const report = await getReport(content);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ line: 3, rubriqueCode: "S21.G00.30.001", severity: "error", code: "INDIVIDU_WITHOUT_ETABLISSEMENT" }),
+      expect.objectContaining({ line: 5, rubriqueCode: "S21.G00.40.001", severity: "error", code: "CONTRAT_WITHOUT_INDIVIDU" }),
+      expect.objectContaining({ line: 8, rubriqueCode: null, severity: "warning", code: "UNRECOGNIZED_LINE" }),
+      expect.objectContaining({ line: 11, rubriqueCode: "S21.G00.51.010", severity: "warning", code: "UNKNOWN_CONTRACT_NUMBER" }),
+    ]);
+    expect(report.errorCount).toBe(2);
+    expect(report.warningCount).toBe(2);
+  });
+
+  it("reports missing mandatory blocks as file-level errors", async () => {
+    const report = await getReport("S10.G00.00.001,'TEST'\nS21.G00.11.015,'FR'\n");
+
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ line: null, code: "MISSING_BLOCK", message: "Missing required S20 block." })
+    );
+  });
+
+  it("keeps warnings on the declaration without rejecting it", async () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../../fixtures/dsn-global-minimal.txt"),
+      "utf-8"
+    ) + "\nnot a dsn line\n";
+    const declaration = await parseDsnFile(content);
+
+    expect(declaration.validStatement).toBe(true);
+    expect(declaration.errors).toEqual([
+      expect.objectContaining({ severity: "warning", code: "UNRECOGNIZED_LINE" }),
+    ]);
+  });
+
+  it("keeps the validation report of accepted declarations", async () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../../fixtures/dsn-global-minimal.txt"),
+      "utf-8"
+    ) + "\nnot a dsn line\n";
+    const declaration = await parseDsnFile(content);
+
+    expect(declaration.validation).toMatchObject({
+      valid: true,
+      errorCount: 0,
+      warningCount: 1,
+      issues: [expect.objectContaining({ code: "UNRECOGNIZED_LINE" })],
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile, parseDsnStream } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+const fixturePath = path.resolve(__dirname, "../../fixtures/valid-dsn.txt");
+
+describe("Streaming DSN reader", () => {
+  it("produces the same declaration from a Node stream as from the full content", async () => {
+    const expected = await parseDsnFile(fs.readFileSync(fixturePath, "utf-8"));
+
+    // Small chunks force lines and UTF-8 characters to be split across reads
+    const declaration = await parseDsnStream(
+      fs.createReadStream(fixturePath, { highWaterMark: 97 })
+    );
+
+    expect(declaration).toEqual(expected);
+  });
+
+  it("reads a web ReadableStream", async () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../../fixtures/dsn-global-minimal.txt"),
+      "utf-8"
+    );
+    const expected = await parseDsnFile(content);
+
+    const declaration = await parseDsnStream(new Blob([content]).stream());
+
+    expect(declaration).toEqual(expected);
+  });
+
+  it("handles CRLF line endings split between chunks", async () => {
+    async function* chunks() {
+      yield "S10.G00.00.001,'TEST'\r";
+      yield "\nS20.G00.05.005,'2025";
+      yield "11'\r\nS21.G00.11.015,'FR'\r\nS21.G00.30.001,'EMP_01'";
+    }
+
+    const declaration = await parseDsnStream(chunks());
+
+    expect(declaration.mois).toBe("202511");
+    expect(declaration.errors).toEqual([]);
+    expect(declaration.entreprise!.etablissements[0].individus[0].identifiant).toBe("EMP_01");
+  });
+});
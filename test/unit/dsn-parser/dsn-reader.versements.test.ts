@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+describe("DSN payment blocks (S21.G00.50 to S21.G00.54)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../fixtures/dsn-remuneration-minimal.txt"),
+    "utf-8"
+  );
+
+  it("attaches payments, remunerations, bonuses and other income to the individual", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const [emp1] = declaration.entreprise!.etablissements[0].individus;
+
+    expect(emp1.versements).toHaveLength(1);
+    const versement = emp1.versements[0];
+    expect(versement.date).toBe("20251130");
+    expect(versement.montantNetVerse).toBe("2350.00");
+
+    // Consecutive S21.G00.51 blocks are read as separate remunerations
+    expect(versement.remunerations).toHaveLength(2);
+    expect(versement.remunerations[0]).toMatchObject({
+      numeroContrat: "C001",
+      type: "001",
+      nombreHeures: "151.67",
+      montant: "3000.00",
+    });
+    expect(versement.remunerations[0].activites).toEqual([
+      { type: "01", mesure: "151.67", unite: "10" },
+    ]);
+
+    expect(versement.primes).toEqual([{ type: "026", montant: "500.00" }]);
+    expect(versement.revenuAutres).toEqual([{ type: "03", montant: "120.00" }]);
+  });
+
+  it("links each remuneration to its contract via numeroContrat", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const [emp1] = declaration.entreprise!.etablissements[0].individus;
+    const [first, second] = emp1.versements[0].remunerations;
+
+    expect(first.contrat).toBe(emp1.contrats[0]);
+    expect(second.contrat).toBe(emp1.contrats[1]);
+  });
+
+  it("keeps remunerations declared without a preceding S21.G00.50 block", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const emp2 = declaration.entreprise!.etablissements[0].individus[1];
+
+    expect(emp2.versements).toHaveLength(1);
+    expect(emp2.versements[0].date).toBeUndefined();
+    expect(emp2.versements[0].remunerations[0].montant).toBe("2800.00");
+    expect(emp2.versements[0].remunerations[0].contrat).toBe(emp2.contrats[0]);
+  });
+
+  it("parses every payment of the reference DSN", async () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../../fixtures/valid-dsn.txt"),
+      "utf-8"
+    );
+    const declaration = await parseDsnFile(content);
+    const individus = declaration.entreprise!.etablissements.flatMap(e => e.individus);
+
+    expect(individus).toHaveLength(100);
+    expect(individus.every(i => i.versements.length === 1)).toBe(true);
+    expect(individus.every(i => i.versements[0].remunerations.length === 1)).toBe(true);
+  });
+
+  it("splits back-to-back instances of a block starting with the same rubrique", async () => {
+    const declaration = await parseDsnFile([
+      "S10.G00.00.001,'TEST'",
+      "S20.G00.05.005,'202511'",
+      "S21.G00.11.015,'FR'",
+      "S21.G00.30.001,'EMP_01'",
+      "S21.G00.40.001,'20200101'",
+      "S21.G00.54.001,'03'",
+      "S21.G00.54.001,'17'",
+      "S21.G00.54.002,'45.00'",
+      "S21.G00.65.001,'501'",
+      "S21.G00.65.001,'502'",
+    ].join("\n"));
+    const [emp1] = declaration.entreprise!.etablissements[0].individus;
+
+    expect(emp1.versements[0].revenuAutres).toEqual([
+      { type: "03", montant: undefined },
+      { type: "17", montant: "45.00" },
+    ]);
+    expect(emp1.suspensions.map(suspension => suspension.motif)).toEqual(["501", "502"]);
+  });
+
+  it("reports activities declared without a remuneration", async () => {
+    const declaration = await parseDsnFile([
+      "S10.G00.00.001,'TEST'",
+      "S20.G00.05.005,'202511'",
+      "S21.G00.11.015,'FR'",
+      "S21.G00.30.001,'EMP_01'",
+      "S21.G00.40.001,'20200101'",
+      "S21.G00.53.001,'01'",
+      "S21.G00.53.002,'151.67'",
+    ].join("\n"));
+
+    expect(declaration.errors).toContainEqual(expect.objectContaining({
+      line: 6,
+      rubriqueCode: "S21.G00.53.001",
+      severity: "warning",
+      code: "ACTIVITE_WITHOUT_REMUNERATION",
+    }));
+    expect(declaration.entreprise!.etablissements[0].individus[0].versements).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { reconcileDeclarations } from "~/utils/dsn-parser/reconcile.server";
+
+/**
+ * Builds a minimal DSN with one establishment and the given employees.
+ */
+function dsn(options: { type: string; fraction?: string; dateFichier: string; siren?: string; nic?: string; employees: string[] }) {
+  return [
+    "S10.G00.00.001,'TEST'",
+    "S20.G00.05.001,'01'",
+    `S20.G00.05.002,'${options.type}'`,
+    `S20.G00.05.003,'${options.fraction ?? "11"}'`,
+    "S20.G00.05.005,'202505'",
+    `S20.G00.05.007,'${options.dateFichier}'`,
+    `S21.G00.06.001,'${options.siren ?? "123456789"}'`,
+    `S21.G00.11.001,'${options.nic ?? "00011"}'`,
+    "S21.G00.11.015,'FR'",
+    ...options.employees.flatMap(id => [
+      `S21.G00.30.001,'${id}'`,
+      "S21.G00.30.005,'01'",
+      "S21.G00.40.001,'20200101'",
+    ]),
+  ].join("\n");
+}
+
+async function upload(fileName: string, content: string) {
+  return { fileName, declaration: await parseDsnFile(content) };
+}
+
+function employeeIds(declaration: { entreprise?: { etablissements?: { individus: { identifiant?: string }[] }[] } }) {
+  return (declaration.entreprise?.etablissements ?? []).flatMap(e => e.individus.map(i => i.identifiant));
+}
+
+describe("reconcileDeclarations", () => {
+  it("keeps the 'annule et remplace' declaration over the original", async () => {
+    const result = reconcileDeclarations([
+      await upload("may-replacement.txt", dsn({ type: "03", dateFichier: "20250620", employees: ["A", "B"] })),
+      await upload("may.txt", dsn({ type: "01", dateFichier: "20250605", employees: ["A"] })),
+    ]);
+
+    expect(result.declarations).toHaveLength(1);
+    expect(employeeIds(result.declarations[0])).toEqual(["A", "B"]);
+    expect(result.superseded).toEqual([
+      { fileName: "may.txt", reason: "Replaced by may-replacement.txt (annule et remplace)" },
+    ]);
+  });
+
+  it("keeps the latest file by file date, whatever the upload order", async () => {
+    const result = reconcileDeclarations([
+      await upload("may-resent.txt", dsn({ type: "01", dateFichier: "20250705", employees: ["A", "B"] })),
+      await upload("may.txt", dsn({ type: "01", dateFichier: "20250620", employees: ["A"] })),
+    ]);
+
+    expect(employeeIds(result.declarations[0])).toEqual(["A", "B"]);
+    expect(result.superseded).toEqual([
+      { fileName: "may.txt", reason: "Same month declared again in may-resent.txt; the latest file is kept" },
+    ]);
+  });
+
+  it("keeps a declaration filed after an 'annule'", async () => {
+    const result = reconcileDeclarations([
+      await upload("may.txt", dsn({ type: "01", dateFichier: "20250605", employees: ["A"] })),
+      await upload("may-cancel.txt", dsn({ type: "04", dateFichier: "20250610", employees: [] })),
+      await upload("may-new.txt", dsn({ type: "01", dateFichier: "20250702", employees: ["B"] })),
+    ]);
+
+    expect(result.declarations).toHaveLength(1);
+    expect(employeeIds(result.declarations[0])).toEqual(["B"]);
+    expect(result.superseded.map(file => file.fileName)).toEqual(["may.txt", "may-cancel.txt"]);
+  });
+
+  it("drops the month when the last declaration is an 'annule'", async () => {
+    const result = reconcileDeclarations([
+      await upload("may.txt", dsn({ type: "01", dateFichier: "20250605", employees: ["A"] })),
+      await upload("may-cancel.txt", dsn({ type: "04", dateFichier: "20250610", employees: [] })),
+    ]);
+
+    expect(result.declarations).toHaveLength(0);
+    expect(result.superseded.map(file => file.fileName)).toEqual(["may.txt", "may-cancel.txt"]);
+  });
+
+  it("merges fractions into one declaration, establishments merged by NIC", async () => {
+    const result = reconcileDeclarations([
+      await upload("may-1.txt", dsn({ type: "01", fraction: "12", dateFichier: "20250605", employees: ["A"] })),
+      await upload("may-2.txt", dsn({ type: "01", fraction: "22", dateFichier: "20250605", employees: ["B"] })),
+    ]);
+
+    expect(result.declarations).toHaveLength(1);
+    expect(result.declarations[0].fraction).toBe("12+22");
+    expect(result.declarations[0].entreprise?.etablissements).toHaveLength(1);
+    expect(employeeIds(result.declarations[0])).toEqual(["A", "B"]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("warns when a fraction is missing", async () => {
+    const result = reconcileDeclarations([
+      await upload("may-1.txt", dsn({ type: "01", fraction: "13", dateFichier: "20250605", employees: ["A"] })),
+    ]);
+
+    expect(result.declarations).toHaveLength(1);
+    expect(result.warnings).toEqual(["SIREN 123456789, month 202505: 1 of 3 fractions uploaded."]);
+  });
+
+  it("rejects declarations of several companies", async () => {
+    const uploads = [
+      await upload("may-a.txt", dsn({ type: "01", dateFichier: "20250605", employees: ["A"] })),
+      await upload("may-b.txt", dsn({ type: "01", dateFichier: "20250605", siren: "987654321", employees: ["B"] })),
+    ];
+
+    expect(() => reconcileDeclarations(uploads)).toThrow(
+      "The uploaded DSNs declare several companies: SIREN 123456789 (may-a.txt); SIREN 987654321 (may-b.txt). " +
+      "Upload the DSNs of one company at a time."
+    );
+  });
+});
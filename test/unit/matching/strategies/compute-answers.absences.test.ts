@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Work stoppages (S1-14) and family leave (S1-15)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-absences-minimal.txt"),
+    "utf-8"
+  );
+
+  it("parses S21.G00.60 and S21.G00.65 blocks", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const individus = declaration.entreprise?.etablissements?.[0].individus ?? [];
+
+    expect(individus[0].arrets).toEqual([{
+      motif: "06",
+      dernierJourTravaille: "20251109",
+      dateFinPrevisionnelle: undefined,
+      dateReprise: "20251120",
+      motifReprise: undefined,
+      dateAccident: "20251109",
+    }]);
+    expect(individus[4].suspensions).toEqual([
+      { motif: "507", dateDebut: "20250901", dateFin: "20260301" },
+    ]);
+  });
+
+  it("computes accidents, days lost and family leave by gender", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const answers = computeAnswers(await parseDsnFile(dsnContent), loadQuestionsFromCsv());
+
+    expect(answers["S1-14_01"]).toEqual({
+      questionId: "S1-14_01",
+      dimensions: {},
+      value: 1,
+      source: "computed",
+      explanation: "1 work accident (S21.G00.60 reason 06) between 2025-11-01 and 2025-11-30"
+    });
+
+    // The occupational disease started in October: not a new case this month
+    expect(answers["S1-14_02"].value).toBe(0);
+
+    // 10 days (accident) + 30 days (ongoing disease), sick leave not counted
+    expect(answers["S1-14_03"]).toEqual({
+      questionId: "S1-14_03",
+      dimensions: {},
+      value: 40,
+      source: "computed",
+      explanation: "40 calendar days lost over 2 work-related stoppages (S21.G00.60 reasons 05 and 06) between 2025-11-01 and 2025-11-30"
+    });
+
+    // Paternity + parental leave for men, maternity for women
+    expect(answers["S1-15_02_M"].value).toBe(2);
+    expect(answers["S1-15_02_F"]).toEqual({
+      questionId: "S1-15_02",
+      dimensions: { gender: "F" },
+      value: 1,
+      source: "computed",
+      explanation: "Gender F: 1 employee took maternity, paternity or parental leave between 2025-11-01 and 2025-11-30"
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Employees by age group (S1-9_01)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-age-minimal.txt"),
+    "utf-8"
+  );
+
+  it("groups employees by age at period end", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    expect(answers["S1-9_02_under-30"]).toEqual({
+      questionId: "S1-9_02",
+      dimensions: { ageGroup: "under-30" },
+      value: 1,
+      source: "computed",
+      explanation: "Employees in age group under-30: 1"
+    });
+
+    // 30 reached on 2025-11-30, 50 not yet reached on 2025-11-30
+    expect(answers["S1-9_02_30-50"].value).toBe(2);
+    expect(answers["S1-9_02_over-50"].value).toBe(1);
+    expect(answers["S1-9_03_30-50"]).toEqual({
+      questionId: "S1-9_03",
+      dimensions: { ageGroup: "30-50" },
+      value: 2,
+      source: "computed",
+      explanation: "Average employees in age group 30-50: 2 (two-point average of period start and end)"
+    });
+
+    // Employees without a birth date are left out of the table
+    expect(answers["S1-9_02_unknown"]).toBeUndefined();
+  });
+});
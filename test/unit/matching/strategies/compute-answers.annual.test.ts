@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { extractReportingPeriodFromSet } from "~/utils/matching/extract-period.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+async function loadMonths(months: string[]) {
+  return Promise.all(months.map(month => parseDsnFile(fs.readFileSync(
+    path.resolve(__dirname, `../../../fixtures/dsn-annual-${month}.txt`),
+    "utf-8"
+  ))));
+}
+
+describe("Annual reporting from monthly DSNs", () => {
+  it("reports over the fiscal year and lists missing months", async () => {
+    const declarations = await loadMonths(["202512", "202501", "202506"]);
+    const coverage = extractReportingPeriodFromSet(declarations);
+
+    expect(coverage.start).toEqual(new Date(2025, 0, 1));
+    expect(coverage.end).toEqual(new Date(2025, 11, 31));
+    expect(coverage.coveredMonths).toHaveLength(3);
+    expect(coverage.missingMonths.map(m => m.month)).toEqual([1, 2, 3, 4, 6, 7, 8, 9, 10]);
+  });
+
+  it("computes year-end headcount, average and annual leavers across months", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+    
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+    
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+    
+    const declarations = await loadMonths(["202501", "202506", "202512"]);
+    const answers = computeAnswers(declarations, loadQuestionsFromCsv());
+
+    // EMP_01 and EMP_03 (hired in May) remain at Dec 31
+    expect(answers["S1-6_02"]).toEqual({
+      questionId: "S1-6_02",
+      dimensions: {},
+      value: 2,
+      source: "computed",
+      explanation: "2 employees with active contracts as of 2025-12-31"
+    });
+
+    // (3 on Jan 1 + 2 on Dec 31) / 2
+    expect(answers["S1-6_03"].value).toBe(2.5);
+
+    // EMP_02 no longer declared after January, EMP_04 ended on Dec 15
+    expect(answers["S1-6_11"]).toEqual({
+      questionId: "S1-6_11",
+      dimensions: {},
+      value: 2,
+      source: "computed",
+      explanation: "2 employees left between 2025-01-01 and 2025-12-31"
+    });
+    expect(answers["S1-6_12"].value).toBe(67);
+  });
+
+  it("reports over a period set by the user", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declarations = await loadMonths(["202501", "202506", "202512"]);
+    const period = { start: new Date(2025, 5, 1), end: new Date(2025, 11, 31) };
+
+    const coverage = extractReportingPeriodFromSet(declarations, period);
+    expect(coverage.missingMonths.map(m => m.month)).toEqual([6, 7, 8, 9, 10]);
+
+    // EMP_02 left in January, before the period
+    const answers = computeAnswers(declarations, loadQuestionsFromCsv(), { measure: "headcount", period });
+    expect(answers["S1-6_11"]).toEqual({
+      questionId: "S1-6_11",
+      dimensions: {},
+      value: 1,
+      source: "computed",
+      explanation: "1 employee left between 2025-06-01 and 2025-12-31"
+    });
+  });
+
+  it("rejects a period that covers none of the uploaded months", async () => {
+    const declarations = await loadMonths(["202501", "202506"]);
+
+    expect(() => extractReportingPeriodFromSet(declarations, {
+      start: new Date(2024, 3, 1),
+      end: new Date(2024, 11, 31),
+    })).toThrow("does not cover any uploaded DSN month");
+  });
+
+  it("averages the headcount with the monthly and daily-weighted methods", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declarations = await loadMonths(["202501", "202506", "202512"]);
+
+    // Month ends: 3 in January, 2 until April, 3 from May (EMP_03), 2 in December (EMP_04 left)
+    const monthly = computeAnswers(declarations, loadQuestionsFromCsv(), { measure: "headcount", averaging: "monthly" });
+    expect(monthly["S1-6_03"]).toEqual({
+      questionId: "S1-6_03",
+      dimensions: {},
+      value: 2.7,
+      source: "computed",
+      explanation: "Average employees (average of month-end figures): (3 + 2 + 2 + 2 + 3 + 3 + 3 + 3 + 3 + 3 + 3 + 2) / 12 = 2.7"
+    });
+    expect(monthly["S1-6_15"].explanation).toContain("average of month-end figures");
+
+    // EMP_01 365 days, EMP_02 31, EMP_03 236 (from May 10), EMP_04 349 (until Dec 15)
+    const daily = computeAnswers(declarations, loadQuestionsFromCsv(), { measure: "headcount", averaging: "daily-weighted" });
+    expect(daily["S1-6_03"]).toEqual({
+      questionId: "S1-6_03",
+      dimensions: {},
+      value: 2.7,
+      source: "computed",
+      explanation: "Average employees (daily-weighted average): 981 employee-days / 365 days = 2.7"
+    });
+  });
+});
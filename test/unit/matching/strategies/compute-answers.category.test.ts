@@ -49,12 +49,16 @@ describe("Employees by Category (S1-6_18)", () => {
     
     //  End-of-period headcount by category
     expect(answers["S1-6_19_3855"]).toEqual({
+      questionId: "S1-6_19",
+      dimensions: { pcsEse: "3855" },
       value: 1,
       source: "computed",
       explanation: "Employees in professional category 3855: 1"
     });
     
     expect(answers["S1-6_19_6220"]).toEqual({
+      questionId: "S1-6_19",
+      dimensions: { pcsEse: "6220" },
       value: 1,
       source: "computed", 
       explanation: "Employees in professional category 6220: 1"
@@ -62,15 +66,19 @@ describe("Employees by Category (S1-6_18)", () => {
     
     //  Average headcount by category  
     expect(answers["S1-6_20_3855"]).toEqual({
+      questionId: "S1-6_20",
+      dimensions: { pcsEse: "3855" },
       value: 1,
       source: "computed",
-      explanation: "Average employees in professional category 3855: 1"
+      explanation: "Average employees in professional category 3855: 1 (two-point average of period start and end)"
     });
     
     expect(answers["S1-6_20_6220"]).toEqual({
+      questionId: "S1-6_20",
+      dimensions: { pcsEse: "6220" },
       value: 1,
       source: "computed",
-      explanation: "Average employees in professional category 6220: 1"
+      explanation: "Average employees in professional category 6220: 1 (two-point average of period start and end)"
     });
     
     //erify dynamic keys exist
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Collective bargaining coverage (S1-8)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-collective-agreement-minimal.txt"),
+    "utf-8"
+  );
+
+  it("computes coverage per country and headcount per agreement", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    expect(declaration.entreprise?.etablissements?.[0].individus[0].contrats[0].idcc).toBe("1486");
+
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    expect(answers["S1-8_02_FR"]).toEqual({
+      questionId: "S1-8_02",
+      dimensions: { country: "FR" },
+      value: 67,
+      source: "computed",
+      explanation: "Country FR: Collective bargaining coverage: 67% (2 of 3 employees with an IDCC other than 9999)"
+    });
+    expect(answers["S1-8_02_DE"].value).toBe(0);
+
+    expect(answers["S1-8_04_1486"]).toEqual({
+      questionId: "S1-8_04",
+      dimensions: { idcc: "1486" },
+      value: 2,
+      source: "computed",
+      explanation: "Employees under collective agreement IDCC 1486: 2"
+    });
+    expect(answers["S1-8_04_9999"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Contract timeline (several contracts per person)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-contract-timeline-minimal.txt"),
+    "utf-8"
+  );
+
+  it("judges employment across all contracts and categorises by the primary contract", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    // EMP_01 and EMP_02 keep an open contract, only EMP_03 has left
+    expect(answers["S1-6_02"].value).toBe(3);
+    expect(answers["S1-6_11"].value).toBe(1);
+    expect(answers["S1-6_25_voluntary"]?.value).toBe(1);
+    expect(answers["S1-6_25_end-of-contract"]).toBeUndefined();
+
+    // A CDD converted into a CDI is not a new hire
+    expect(answers["S1-6_27"].value).toBe(0);
+
+    // Primary contract: EMP_01 → CDI (38), EMP_04 → largest quotité (47)
+    expect(answers["S1-6_19_38"].value).toBe(1);
+    expect(answers["S1-6_19_47"].value).toBe(2);
+  });
+});
@@ -52,21 +52,27 @@ describe("Employees by Country (S1-6_04)", () => {
     
 
     expect(answers["S1-6_05_FR"]).toEqual({
+      questionId: "S1-6_05",
+      dimensions: { country: "FR" },
       value: 1,
       source: "computed",
       explanation: "Employees in country FR: 1"
     });
     
     expect(answers["S1-6_06_IR"]).toEqual({
+      questionId: "S1-6_06",
+      dimensions: { country: "IR" },
       value: 3,
       source: "computed",
-      explanation: "Average employees in country IR: 3"
+      explanation: "Average employees in country IR: 3 (two-point average of period start and end)"
     });
 
     expect(answers["S1-6_06_FR"]).toEqual({
+      questionId: "S1-6_06",
+      dimensions: { country: "FR" },
       value: 1.5,
       source: "computed",
-      explanation: "Average employees in country FR: 1.5"
+      explanation: "Average employees in country FR: 1.5 (two-point average of period start and end)"
     });
     
     const countryKeys = Object.keys(answers).filter(k => k.startsWith("S1-6_05_"));
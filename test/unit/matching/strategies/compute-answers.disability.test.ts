@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Employees with disabilities (S1-12)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-disability-minimal.txt"),
+    "utf-8"
+  );
+
+  it("counts BOETH employees at period end and flags small cells", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const answers = computeAnswers(await parseDsnFile(dsnContent), loadQuestionsFromCsv());
+
+    expect(answers["S1-12_01"]).toEqual({
+      questionId: "S1-12_01",
+      dimensions: {},
+      value: 2,
+      source: "computed",
+      explanation: "2 employees with a BOETH status (S21.G00.40.072) at period end [small cell: fewer than 5 people, individuals may be identifiable]"
+    });
+    expect(answers["S1-12_02"].value).toBe(50);
+
+    expect(answers["S1-12_04_M"].value).toBe(1);
+    expect(answers["S1-12_04_F"].value).toBe(1);
+    expect(answers["S1-12_04_F"].explanation).toContain("[small cell");
+  });
+});
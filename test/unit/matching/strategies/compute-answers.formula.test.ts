@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { computeAnswers } from "~/utils/matching/index.server";
+import { createQuestionNode } from "~/utils/questions/loader.server";
+import { QuestionNode } from "~/utils/questions/types";
+import fs from "fs";
+import path from "path";
+
+function question(id: string, strategy: string, formula = "", children: QuestionNode[] = []): QuestionNode {
+  const node = createQuestionNode({
+    "ID": id,
+    "question label en": id,
+    "content": strategy.startsWith("group-by") ? "Table" : "number",
+    "order": "0",
+    "strategy": strategy,
+    "formula": formula,
+  });
+  return { ...node, children };
+}
+
+describe("Formula questions", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-age-minimal.txt"),
+    "utf-8"
+  );
+
+  it("evaluates formulas after their dependencies, showing substituted values", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, [
+      question("X_30", "", "X_20 / 2"), // Depends on a formula declared after it
+      question("X_01", "headcount-at-period-end"),
+      question("X_10", "group-by:gender", "", [
+        question("X_11", "headcount-at-period-end"),
+      ]),
+      question("X_20", "", "X_11_F / X_01 * 100"),
+      question("X_21", "", "{X_11_*} - (X_01 - 1)"),
+      question("X_22", "", "X_01 / (X_11_F - 2)"),
+      question("X_23", "", "X_99 + 1"),
+    ]);
+
+    expect(answers["X_20"]).toEqual({
+      questionId: "X_20",
+      dimensions: {},
+      value: 40,
+      source: "computed",
+      explanation: "X_11_F / X_01 * 100 = 2 / 5 * 100 = 40"
+    });
+    expect(answers["X_30"].value).toBe(20);
+    expect(answers["X_30"].explanation).toBe("X_20 / 2 = 40 / 2 = 20");
+    expect(answers["X_21"].explanation).toBe("{X_11_*} - (X_01 - 1) = (2 + 3) - (5 - 1) = 1");
+    expect(answers["X_22"]).toMatchObject({ value: null, explanation: "X_01 / (X_11_F - 2) = 5 / (2 - 2) (division by zero)" });
+    expect(answers["X_23"]).toMatchObject({ value: null, explanation: "X_99 + 1: no numeric answer for X_99" });
+  });
+
+  it("rejects circular formulas and syntax errors", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+
+    expect(() => computeAnswers(declaration, [
+      question("X_01", "", "X_02 + 1"),
+      question("X_02", "", "X_03 * 2"),
+      question("X_03", "", "X_01"),
+    ])).toThrow("Circular formula: X_01 → X_02 → X_03 → X_01");
+
+    expect(() => question("X_04", "", "S1-6_11 / (S1-6_03 * 100")).toThrow(
+      'Question X_04: invalid formula "S1-6_11 / (S1-6_03 * 100" (missing ")")'
+    );
+  });
+});
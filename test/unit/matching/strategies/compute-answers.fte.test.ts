@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Full-time equivalent mode (S1-6_14)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-fte-minimal.txt"),
+    "utf-8"
+  );
+
+  async function computeWith(measure: "headcount" | "fte", content = dsnContent) {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    return computeAnswers(await parseDsnFile(content), loadQuestionsFromCsv(), { measure });
+  }
+
+  it("counts people in head-count mode", async () => {
+    const answers = await computeWith("headcount");
+
+    expect(answers["S1-6_02"].value).toBe(3);
+    expect(answers["S1-6_14"]).toMatchObject({ value: "Head-count", source: "computed" });
+  });
+
+  it("weights employees by working time in FTE mode", async () => {
+    const answers = await computeWith("fte");
+
+    expect(answers["S1-6_02"]).toEqual({
+      questionId: "S1-6_02",
+      dimensions: {},
+      value: 2.5,
+      source: "computed",
+      explanation: "2.5 full-time equivalents (3 employees) with active contracts as of 2025-11-30"
+    });
+    expect(answers["S1-6_03"]).toEqual({
+      questionId: "S1-6_03",
+      dimensions: {},
+      value: 2.5,
+      source: "computed",
+      explanation: "Average full-time equivalents (two-point average of period start and end): (2.5 + 2.5) / 2 = 2.5"
+    });
+
+    // Tables follow the same measure
+    expect(answers["S1-6_05_FR"]).toMatchObject({ value: 2.5, explanation: "Full-time equivalents in country FR: 2.5" });
+    expect(answers["S1-6_22_F_part-time"].value).toBe(0.5);
+    expect(answers["S1-6_23_F_part-time"].explanation).toBe(
+      "Average full-time equivalents with gender F working part-time: 0.5 (two-point average of period start and end)"
+    );
+
+    expect(answers["S1-6_14"]).toMatchObject({ value: "Full-time equivalent", source: "computed" });
+  });
+
+  it("sums the working time of every contract active on the date, capped at 1", async () => {
+    // 0.5 + 0.3 (+ 0.3 until Nov 15) on three concurrent contracts
+    const concurrent = [
+      "S21.G00.30,''",
+      "S21.G00.30.001,'EMP_04'",
+      "S21.G00.30.005,'02'",
+      ...[["'75.84'", null], ["'45.50'", "'20251115'"], ["'45.50'", null]].flatMap(([quotite, end]) => [
+        "S21.G00.40,''",
+        "S21.G00.40.001,'20200101'",
+        "S21.G00.40.007,'01'",
+        "S21.G00.40.011,'10'",
+        "S21.G00.40.012,'151.67'",
+        `S21.G00.40.013,${quotite}`,
+        "S21.G00.40.014,'20'",
+        ...(end ? ["S21.G00.62,''", `S21.G00.62.001,${end}`, "S21.G00.62.002,'036'"] : []),
+      ]),
+    ].join("\n");
+    const answers = await computeWith("fte", `${dsnContent}\n${concurrent}\n`);
+
+    expect(answers["S1-6_02"].explanation).toBe(
+      "3.3 full-time equivalents (4 employees) with active contracts as of 2025-11-30"
+    );
+    expect(answers["S1-6_03"].explanation).toBe(
+      "Average full-time equivalents (two-point average of period start and end): (3.5 + 3.3) / 2 = 3.4"
+    );
+  });
+});
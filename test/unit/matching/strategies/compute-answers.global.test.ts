@@ -37,6 +37,8 @@ describe("Global Employees (S1-6_01)", () => {
     
     //  Global end-of-period headcount (S1-6_02)
     expect(answers["S1-6_02"]).toEqual({
+      questionId: "S1-6_02",
+      dimensions: {},
       value: 4,
       source: "computed",
       explanation: expect.stringContaining("4 employees with active contracts as of 2025-11-30")
@@ -44,6 +46,8 @@ describe("Global Employees (S1-6_01)", () => {
     
     //  Global average headcount (S1-6_03)
     expect(answers["S1-6_03"]).toEqual({
+      questionId: "S1-6_03",
+      dimensions: {},
       value: 4.5,
       source: "computed",
       explanation: expect.stringContaining("Average employees")
@@ -51,6 +55,8 @@ describe("Global Employees (S1-6_01)", () => {
     
     // Employee leavers (S1-6_11)
     expect(answers["S1-6_11"]).toEqual({
+      questionId: "S1-6_11",
+      dimensions: {},
       value: 1,
       source: "computed",
       explanation: expect.stringContaining("1 employee left between 2025-11-01 and 2025-11-30")
@@ -58,6 +64,8 @@ describe("Global Employees (S1-6_01)", () => {
     
     // Turnover rate (S1-6_12)
     expect(answers["S1-6_12"]).toEqual({
+      questionId: "S1-6_12",
+      dimensions: {},
       value: 20, // (1 leaver / 5 peak employees) * 100 = 20%
       source: "computed",
       explanation: expect.stringContaining("Turnover rate")
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("New hires (S1-6_27)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-hires-minimal.txt"),
+    "utf-8"
+  );
+
+  it("counts first contracts started in the period, globally and by country/gender/category", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    // EMP_02's November contract follows an earlier one: not a hire
+    expect(answers["S1-6_27"]).toEqual({
+      questionId: "S1-6_27",
+      dimensions: {},
+      value: 2,
+      source: "computed",
+      explanation: "2 employees hired between 2025-11-01 and 2025-11-30"
+    });
+
+    expect(answers["S1-6_28_FR"].value).toBe(2);
+    expect(answers["S1-6_30_M"]).toEqual({
+      questionId: "S1-6_30",
+      dimensions: { gender: "M" },
+      value: 1,
+      source: "computed",
+      explanation: "New hires with gender M: 1 employee hired between 2025-11-01 and 2025-11-30"
+    });
+    expect(answers["S1-6_30_F"].value).toBe(1);
+    expect(answers["S1-6_31_3855"].value).toBe(1);
+    expect(answers["S1-6_31_6220"].value).toBe(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Leavers by departure reason (S1-6_24)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-leavers-reason-minimal.txt"),
+    "utf-8"
+  );
+
+  it("groups leavers by S21.G00.62.002 reason and computes voluntary turnover", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    expect(answers["S1-6_25_voluntary"]).toEqual({
+      questionId: "S1-6_25",
+      dimensions: { departureReason: "voluntary" },
+      value: 1,
+      source: "computed",
+      explanation: "Leavers with departure reason voluntary (DSN codes S21.G00.62.002: 059): 1"
+    });
+    expect(answers["S1-6_25_involuntary"]?.value).toBe(1);
+    expect(answers["S1-6_25_end-of-contract"]?.value).toBe(1);
+    expect(answers["S1-6_25_retirement"]?.value).toBe(1);
+    expect(answers["S1-6_25_other"]).toBeUndefined();
+
+    // 4 leavers / 5 employees at period start
+    expect(answers["S1-6_12"].value).toBe(80);
+
+    // 1 resignation / 5 employees at period start
+    expect(answers["S1-6_26"]).toEqual({
+      questionId: "S1-6_26",
+      dimensions: {},
+      value: 20,
+      source: "computed",
+      explanation: "Voluntary turnover rate: 20% (1 voluntary leaver / 5 employees at period start)"
+    });
+  });
+
+  it("applies the turnover denominator, annualization and exclusion options", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+
+    // (5 on Nov 1 + 2 on Nov 30) / 2 = 3.5
+    const average = computeAnswers(declaration, loadQuestionsFromCsv(), {
+      measure: "headcount",
+      turnover: { denominator: "average", annualize: false, excludeEndOfContract: false },
+    });
+    expect(average["S1-6_12"]).toEqual({
+      questionId: "S1-6_12",
+      dimensions: {},
+      value: 114,
+      source: "computed",
+      explanation: "Turnover rate: 114% (4 leavers / 3.5 average employees)"
+    });
+
+    // November only: × 365 / 30, without EMP_04 (end of fixed-term contract)
+    const annualized = computeAnswers(declaration, loadQuestionsFromCsv(), {
+      measure: "headcount",
+      turnover: { denominator: "start", annualize: true, excludeEndOfContract: true },
+    });
+    expect(annualized["S1-6_12"]).toEqual({
+      questionId: "S1-6_12",
+      dimensions: {},
+      value: 730,
+      source: "computed",
+      explanation: "Turnover rate (annualized): 730% (3 leavers / 5 employees at period start × 365 / 30 days; 1 end-of-fixed-term-contract leaver excluded)"
+    });
+    expect(annualized["S1-6_26"].value).toBe(243);
+  });
+
+  it("does not count relationships ended without contract termination (099) as departures", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const transferred = [
+      "S21.G00.30,''",
+      "S21.G00.30.001,'EMP_06'",
+      "S21.G00.30.005,'02'",
+      "S21.G00.40,''",
+      "S21.G00.40.001,'20200101'",
+      "S21.G00.62,''",
+      "S21.G00.62.001,'20251125'",
+      "S21.G00.62.002,'099'",
+    ].join("\n");
+    const answers = computeAnswers(await parseDsnFile(`${dsnContent}\n${transferred}\n`), loadQuestionsFromCsv());
+
+    expect(answers["S1-6_11"].explanation).toBe(
+      "4 employees left between 2025-11-01 and 2025-11-30 (1 end of relationship without contract termination not counted)"
+    );
+    expect(answers["S1-6_25_transfer"]).toBeUndefined();
+
+    // 4 leavers / 6 employees at period start
+    expect(answers["S1-6_12"].value).toBe(67);
+  });
+});
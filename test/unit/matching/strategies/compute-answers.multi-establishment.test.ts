@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Individuals declared under several establishments", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-multi-establishment-minimal.txt"),
+    "utf-8"
+  );
+
+  it("counts each person once and does not report transfers as leavers", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    // EMP_01 (NIR) and T002 (technical identifier) are declared twice
+    expect(answers["S1-6_02"].value).toBe(2);
+
+    expect(answers["S1-6_11"]).toEqual({
+      questionId: "S1-6_11",
+      dimensions: {},
+      value: 1,
+      source: "computed",
+      explanation: "1 employee left between 2025-11-01 and 2025-11-30 (1 transfer between establishments not counted)"
+    });
+
+    // Country of the primary contract: EMP_01 → DE after the transfer, T002 → FR (larger quotité)
+    expect(answers["S1-6_05_DE"].value).toBe(1);
+    expect(answers["S1-6_05_FR"].value).toBe(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Gender pay gap (S1-16)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-pay-gap-minimal.txt"),
+    "utf-8"
+  );
+
+  it("computes the unadjusted gap from hourly pay, globally and per category", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    // Men: (25 + 15) / 2 = 20/h, women: (22 + 15) / 2 = 18.5/h
+    expect(answers["S1-16_01"]).toEqual({
+      questionId: "S1-16_01",
+      dimensions: {},
+      value: 7.5,
+      source: "computed",
+      explanation: "Gender pay gap: (20.00 - 18.50) / 20.00 = 7.5% (men: 2 employees, average 20.00/h; women: 2 employees, average 18.50/h)"
+    });
+
+    expect(answers["S1-16_03_3855"].value).toBe(12);
+    expect(answers["S1-16_03_3855"].explanation).toMatch(/^Professional category 3855: Gender pay gap/);
+    expect(answers["S1-16_03_6220"].value).toBe(0);
+  });
+});
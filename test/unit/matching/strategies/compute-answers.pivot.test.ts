@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { computeAnswers } from "~/utils/matching/index.server";
+import { QuestionNode } from "~/utils/questions/types";
+import fs from "fs";
+import path from "path";
+
+function question(id: string, content: QuestionNode["content"], strategy?: string, children: QuestionNode[] = []): QuestionNode {
+  return { id, labelEn: id, content, order: 0, strategy, children };
+}
+
+describe("Pivot tables", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-age-minimal.txt"),
+    "utf-8"
+  );
+
+  it("computes every cell of the cartesian product with row, column and grand totals", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, [
+      question("X_10", "Table", "group-by:gender+ageGroup", [
+        question("X_11", "number", "headcount-at-period-end"),
+      ]),
+    ]);
+
+    // Empty combination
+    expect(answers["X_11_F_under-30"]).toMatchObject({ value: 0, dimensions: { gender: "F", ageGroup: "under-30" } });
+
+    // Row total, column total and grand total
+    expect(answers["X_11_M_total"]).toEqual({
+      questionId: "X_11",
+      dimensions: { gender: "M", ageGroup: "total" },
+      value: 3,
+      source: "computed",
+      explanation: "Employees with gender M: 3"
+    });
+    expect(answers["X_11_total_30-50"].value).toBe(2);
+    expect(answers["X_11_total_total"]).toEqual({
+      questionId: "X_11",
+      dimensions: { gender: "total", ageGroup: "total" },
+      value: 5,
+      source: "computed",
+      explanation: "Employees in total: 5"
+    });
+  });
+
+  it("adds a single total to one-dimension tables, without employees of unknown value", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, [
+      question("X_20", "Table", "group-by:ageGroup", [
+        question("X_21", "number", "headcount-at-period-end"),
+      ]),
+    ]);
+
+    // One employee has no birth date
+    expect(answers["X_21_unknown"]).toBeUndefined();
+    expect(answers["X_21_total"]).toMatchObject({ value: 4, dimensions: { ageGroup: "total" } });
+    expect(Object.keys(answers).filter(key => key.includes("total"))).toEqual(["X_21_total"]);
+  });
+});
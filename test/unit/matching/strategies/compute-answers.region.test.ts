@@ -37,12 +37,16 @@ describe("Employees by Region (S1-6_08)", () => {
     
     //  Region end-of-period headcount (S1-6_09)
     expect(answers["S1-6_09_FR"]).toEqual({
+      questionId: "S1-6_09",
+      dimensions: { region: "FR" },
       value: 2,
       source: "computed",
       explanation: "Employees in region FR (country-level fallback per ESRS S1-6-3): 2"
     });
     
     expect(answers["S1-6_09_IR"]).toEqual({
+      questionId: "S1-6_09",
+      dimensions: { region: "IR" },
       value: 3,
       source: "computed",
       explanation: "Employees in region IR (country-level fallback per ESRS S1-6-3): 3"
@@ -50,15 +54,19 @@ describe("Employees by Region (S1-6_08)", () => {
     
     //  Region average headcount (S1-6_10)
     expect(answers["S1-6_10_FR"]).toEqual({
+      questionId: "S1-6_10",
+      dimensions: { region: "FR" },
       value: 2,
       source: "computed",
-      explanation: "Average employees in region FR (country-level fallback): 2"
+      explanation: "Average employees in region FR (country-level fallback per ESRS S1-6-3): 2 (two-point average of period start and end)"
     });
     
     expect(answers["S1-6_10_IR"]).toEqual({
+      questionId: "S1-6_10",
+      dimensions: { region: "IR" },
       value: 3,
       source: "computed",
-      explanation: "Average employees in region IR (country-level fallback): 3"
+      explanation: "Average employees in region IR (country-level fallback per ESRS S1-6-3): 3 (two-point average of period start and end)"
     });
     
     //  Verify dynamic keys exist
@@ -68,4 +76,36 @@ describe("Employees by Region (S1-6_08)", () => {
     expect(regionKeys).toContain("S1-6_10_FR");
     expect(regionKeys).toContain("S1-6_10_IR");
   });
+
+  it("maps French establishment postal codes to NUTS-2 regions", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const nutsContent = fs.readFileSync(
+      path.resolve(__dirname, "../../../fixtures/dsn-nuts-region-minimal.txt"),
+      "utf-8"
+    );
+    const answers = computeAnswers(await parseDsnFile(nutsContent), loadQuestionsFromCsv());
+
+    expect(answers["S1-6_09_FR10"]).toEqual({
+      questionId: "S1-6_09",
+      dimensions: { region: "FR10" },
+      value: 2,
+      source: "computed",
+      explanation: "Employees in region FR10 (Île-de-France): 2"
+    });
+    expect(answers["S1-6_09_FRK2"].value).toBe(1);
+    expect(answers["S1-6_09_FRY4"].value).toBe(1);
+
+    // Foreign establishment: country-level fallback, its postal code is not read as French
+    expect(answers["S1-6_09_DE"].explanation).toBe(
+      "Employees in region DE (country-level fallback per ESRS S1-6-3): 1"
+    );
+    expect(answers["S1-6_09_FR"]).toBeUndefined();
+  });
 });
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import { computeAnswers } from "~/utils/matching/index.server";
+import { QuestionNode } from "~/utils/questions/types";
+import fs from "fs";
+import path from "path";
+
+function question(id: string, content: QuestionNode["content"], strategy?: string, children: QuestionNode[] = []): QuestionNode {
+  return { id, labelEn: id, content, order: 0, strategy, children };
+}
+
+describe("Strategy registry", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-age-minimal.txt"),
+    "utf-8"
+  );
+
+  it("computes questions bound from the CSV strategy column", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, [
+      question("X_01", "number", "headcount-at-period-end"),
+      question("X_10", "Table", "group-by:gender+ageGroup", [
+        question("X_11", "number", "headcount-at-period-end"),
+      ]),
+    ]);
+
+    expect(answers["X_01"].value).toBe(5);
+    expect(answers["X_11_M_under-30"]).toEqual({
+      questionId: "X_11",
+      dimensions: { gender: "M", ageGroup: "under-30" },
+      value: 1,
+      source: "computed",
+      explanation: "Employees with gender M in age group under-30: 1"
+    });
+    expect(answers["X_11_F_30-50"].value).toBe(2);
+    expect(answers["X_11_M_over-50"].value).toBe(1);
+  });
+
+  it("falls back to the default bindings and rejects unknown strategies", async () => {
+    const declaration = await parseDsnFile(dsnContent);
+
+    expect(computeAnswers(declaration, [question("S1-6_02", "number")])["S1-6_02"].value).toBe(5);
+    expect(() => computeAnswers(declaration, [question("X_01", "number", "headcount")]))
+      .toThrow('Question X_01: unknown strategy "headcount"');
+    expect(() => computeAnswers(declaration, [question("X_10", "Table", "group-by:site")]))
+      .toThrow('Table X_10: unknown dimension "site"');
+    expect(() => computeAnswers(declaration, [question("X_02", "number", "toString")]))
+      .toThrow('Question X_02: unknown strategy "toString"');
+    expect(() => computeAnswers(declaration, [question("X_20", "Table", "group-by:constructor")]))
+      .toThrow('Table X_20: unknown dimension "constructor"');
+  });
+});
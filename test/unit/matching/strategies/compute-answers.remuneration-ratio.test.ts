@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "path";
+import { parseDsnFile } from "~/utils/dsn-parser/parser.server";
+import fs from "fs";
+import path from "path";
+
+function clearModuleCache(relativePath: string) {
+  const absolutePath = resolve(__dirname, relativePath);
+  if (require.cache[absolutePath]) {
+    delete require.cache[absolutePath];
+  }
+}
+
+describe("Annual total remuneration ratio (S1-16_04)", () => {
+  const dsnContent = fs.readFileSync(
+    path.resolve(__dirname, "../../../fixtures/dsn-pay-gap-minimal.txt"),
+    "utf-8"
+  );
+
+  it("divides the highest total remuneration by the median of the others", async () => {
+    process.env.QUESTIONS_CSV_PATH = resolve(__dirname, "../../../fixtures/questions-valid.csv");
+
+    clearModuleCache("../../../../app/utils/questions/loader.server");
+    clearModuleCache("../../../../app/config/questions");
+
+    const { loadQuestionsFromCsv } = await import("~/utils/questions/loader.server");
+    const { computeAnswers } = await import("~/utils/matching/index.server");
+
+    const declaration = await parseDsnFile(dsnContent);
+    const answers = computeAnswers(declaration, loadQuestionsFromCsv());
+
+    // Totals: 4000, 2400 + 500 bonus, 3520, 2400 + 100 other income
+    // Median of the others (3520, 2900, 2500) = 2900
+    expect(answers["S1-16_04"]).toEqual({
+      questionId: "S1-16_04",
+      dimensions: {},
+      value: 1.38,
+      source: "computed",
+      explanation: "Remuneration ratio: 4000.00 / 2900.00 = 1.38 (highest annual total remuneration / median of the 3 other employees, from 2025-11-01 to 2025-11-30)"
+    });
+
+    // The highest paid person is never named
+    expect(answers["S1-16_04"].explanation).not.toContain("EMP_01");
+  });
+});